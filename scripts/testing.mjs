@@ -0,0 +1,517 @@
+/**
+ * Check the testing harness against the built package, running signed interactions and registration through the mock Discord API
+ *
+ * Run with `npm run test:testing`, which builds the package first
+ */
+import assert from 'node:assert/strict';
+import { ApplicationCommandOptionType } from 'discord-api-types/v10';
+
+import {
+    DiscordAPIError,
+    createClient,
+    createComponentState,
+    createConfirmation,
+    createCustomId,
+    createHandler,
+    createPagination,
+    reconcileCommands,
+    registerCommands,
+} from '../dist/index.js';
+import { createTestClient, events, interactions } from '../dist/testing.js';
+
+const client = await createTestClient();
+
+const pingCommand = {
+    name: 'ping',
+    description: 'Reply, then edit the original message.',
+    execute: ({ reply, wait, getOriginal, editOriginal }) => {
+        wait((async () => {
+            const original = await getOriginal();
+            await editOriginal({ content: `${original.content}!` });
+        })());
+        return reply('Pong');
+    },
+};
+
+const slowCommand = {
+    name: 'slow',
+    description: 'Defer, then edit the response and send a follow-up.',
+    execute: ({ defer, wait, edit, more }) => {
+        wait((async () => {
+            await edit({ content: 'Finished' });
+            await more({ content: 'Follow-up' });
+        })());
+        return defer();
+    },
+};
+
+const commands = [ pingCommand, slowCommand ];
+const handler = createHandler(commands, [], client.publicKey, true, [], { algorithm: client.algorithm });
+
+/**
+ * Commands, components and modals to check interactions are routed to, with their options and values parsed
+ */
+const colorCommand = {
+    name: 'color',
+    description: 'Pick a color.',
+    options: [ { type: ApplicationCommandOptionType.String, name: 'name', description: 'The color to pick.', required: true, autocomplete: true } ],
+    autocomplete: {
+        name: ({ focused }) => [ 'red', 'blue', 'black' ]
+            .filter(color => color.startsWith(focused.value))
+            .map(color => ({ name: color, value: color })),
+    },
+    execute: ({ reply, options }) => reply(`You picked ${options.get('name')}`),
+};
+
+const pokeCommand = {
+    name: 'poke',
+    description: 'Poke a user.',
+    options: [
+        { type: ApplicationCommandOptionType.User, name: 'user', description: 'The user to poke.', required: true },
+        { type: ApplicationCommandOptionType.Integer, name: 'count', description: 'How many times to poke them.' },
+        { type: ApplicationCommandOptionType.Boolean, name: 'loud', description: 'Whether to poke loudly.' },
+    ],
+    execute: ({ reply, options }) => reply(JSON.stringify({
+        user: options.get('user').username,
+        count: options.get('count'),
+        loud: options.get('loud'),
+    })),
+};
+
+const settingsCommand = {
+    name: 'settings',
+    description: 'Manage settings.',
+    subcommands: [
+        {
+            name: 'view',
+            description: 'View the current settings.',
+            execute: ({ reply }) => reply('Viewing settings'),
+        },
+        {
+            name: 'admin',
+            description: 'Admin settings.',
+            subcommands: [
+                {
+                    name: 'reset',
+                    description: 'Reset all settings.',
+                    options: [ { type: ApplicationCommandOptionType.Boolean, name: 'confirm', description: 'Whether to reset.' } ],
+                    execute: ({ reply, options }) => reply(`Reset settings: ${options.get('confirm')}`),
+                },
+            ],
+        },
+    ],
+};
+
+const banComponent = {
+    name: 'ban:{userId}',
+    execute: ({ update, params }) => update(`Banning ${params.userId}`),
+};
+
+const pageComponent = {
+    name: 'page-',
+    prefix: true,
+    execute: ({ update, interaction }) => update(`Prefix ${interaction.data.custom_id}`),
+};
+
+const feedbackModal = {
+    name: 'feedback',
+    execute: ({ ephemeral, values }) => ephemeral(JSON.stringify(values)),
+};
+
+const routingHandler = createHandler([ colorCommand, pokeCommand, settingsCommand ], [ banComponent, pageComponent ], client.publicKey, true, [ feedbackModal ], { algorithm: client.algorithm });
+
+/**
+ * Commands to check middleware, cooldowns, errors and automatic deferral
+ */
+const calls = [];
+
+const trackedCommand = {
+    name: 'tracked',
+    description: 'Run through global and command middleware.',
+    middleware: [
+        async (_, next) => {
+            calls.push('command');
+            return next({ extra: 'from middleware' });
+        },
+    ],
+    execute: ({ reply, extra }) => {
+        calls.push('execute');
+        return reply(extra);
+    },
+};
+
+const blockedCommand = {
+    name: 'blocked',
+    description: 'Stopped by middleware.',
+    middleware: [ ({ ephemeral }) => ephemeral('Blocked') ],
+    execute: ({ reply }) => {
+        calls.push('execute');
+        return reply('Not blocked');
+    },
+};
+
+const limitedCommand = {
+    name: 'limited',
+    description: 'Only usable once a minute.',
+    cooldown: { window: 60 },
+    execute: ({ reply }) => reply('Used'),
+};
+
+const brokenCommand = {
+    name: 'broken',
+    description: 'Throw while executing.',
+    execute: () => {
+        throw new Error('Broken');
+    },
+};
+
+const brokenLaterCommand = {
+    name: 'broken-later',
+    description: 'Defer, then throw in the background.',
+    execute: ({ defer, wait }) => {
+        wait(Promise.reject(new Error('Broken later')));
+        return defer();
+    },
+};
+
+const quickCommand = {
+    name: 'quick',
+    description: 'Respond before being automatically deferred.',
+    autoDefer: { after: 1000 },
+    execute: ({ reply }) => reply('Quick'),
+};
+
+const lateCommand = {
+    name: 'late',
+    description: 'Respond after being automatically deferred.',
+    autoDefer: { after: 10 },
+    execute: async ({ reply }) => {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        return reply('Late');
+    },
+};
+
+const executionHandler = createHandler(
+    [ trackedCommand, blockedCommand, limitedCommand, brokenCommand, brokenLaterCommand, quickCommand, lateCommand ],
+    [],
+    client.publicKey,
+    true,
+    [],
+    {
+        algorithm: client.algorithm,
+        middleware: [
+            async (_, next) => {
+                calls.push('global');
+                const response = await next();
+                calls.push('global done');
+                return response;
+            },
+        ],
+    },
+);
+
+/**
+ * Components with state and flows, signed with a shared secret
+ */
+const secret = 'testing-secret-that-is-long-enough';
+
+const panelComponent = {
+    name: 'panel:{page}',
+    state: true,
+    execute: ({ update, params, state }) => update(`Page ${params.page} for ${state.moderator}`),
+};
+
+const pages = createPagination({ name: 'pages', pages: [ 'Page one', 'Page two', 'Page three' ] });
+
+// Buttons with no timeout have already expired once they are built
+const expiredPages = createPagination({ name: 'expired-pages', pages: [ 'Page one', 'Page two' ], timeout: 0 });
+
+const purge = createConfirmation({ name: 'purge', confirm: channelId => `Purged ${channelId}` });
+
+const pagesCommand = {
+    name: 'pages',
+    description: 'Page through some messages.',
+    execute: async ctx => ctx.reply(await pages.message(ctx, undefined)),
+};
+
+const expiredPagesCommand = {
+    name: 'expired-pages',
+    description: 'Page through some messages, with buttons that have already expired.',
+    execute: async ctx => ctx.reply(await expiredPages.message(ctx, undefined)),
+};
+
+const purgeCommand = {
+    name: 'purge',
+    description: 'Purge the channel.',
+    execute: async ctx => ctx.reply(await purge.message(ctx, ctx.interaction.channel.id, 'Are you sure?')),
+};
+
+const stateHandler = createHandler([ pagesCommand, expiredPagesCommand, purgeCommand ], [ panelComponent ], client.publicKey, true, [], {
+    algorithm: client.algorithm,
+    state: { secret },
+    flows: [ pages, expiredPages, purge ],
+});
+
+/**
+ * Listeners for webhook events
+ */
+const received = [];
+
+const eventHandler = createHandler([], [], client.publicKey, true, [], {
+    algorithm: client.algorithm,
+    events: [ { type: 'APPLICATION_AUTHORIZED', execute: ({ event }) => received.push(event) } ],
+});
+
+const otherUser = { id: '100000000000000002', username: 'other-user', discriminator: '0', global_name: 'Other User', avatar: null };
+
+/**
+ * Run a function with console output silenced, for checks that log errors on purpose
+ */
+const quietly = async fn => {
+    const { log, error, warn } = console;
+    console.log = console.error = console.warn = () => {};
+    try {
+        return await fn();
+    } finally {
+        Object.assign(console, { log, error, warn });
+    }
+};
+
+/**
+ * Get the custom_ids of the buttons in the last action row of a response
+ */
+const buttons = body => body.data.components.at(-1).components.map(button => button.custom_id);
+
+const check = async (name, fn) => {
+    client.discord.reset();
+    calls.length = 0;
+    received.length = 0;
+    await fn();
+    console.log(`ok - ${name}`);
+};
+
+try {
+    await check('a signed command replies, and background work can fetch and edit the original message', async () => {
+        const interaction = interactions.command(pingCommand);
+        const { response, body } = await client.invoke(handler, interaction);
+        assert.equal(response.status, 200);
+        assert.deepEqual(body, { type: 4, data: { content: 'Pong' } });
+        assert.equal(client.discord.messages.get(`@original:${interaction.token}`).content, 'Pong!');
+    });
+
+    await check('an unsigned request is rejected', async () => {
+        const request = await client.request(interactions.command(pingCommand));
+        const response = await handler(new Request(request, { headers: { ...Object.fromEntries(request.headers), 'X-Signature-Ed25519': '00'.repeat(64) } }), { waitUntil: () => {} });
+        assert.equal(response.status, 401);
+    });
+
+    await check('a request with a stale timestamp, a body that is too large, or a body that is not JSON is rejected', async () => {
+        const send = async (body, timestamp, target = handler) => {
+            const signed = await client.sign(body, timestamp);
+            return target(new Request('https://example.com/interactions', {
+                method: 'POST',
+                body,
+                headers: { 'Content-Type': 'application/json', 'X-Signature-Ed25519': signed.signature, 'X-Signature-Timestamp': signed.timestamp },
+            }), { waitUntil: () => {} });
+        };
+
+        const stale = await quietly(() => send(JSON.stringify(interactions.command(pingCommand)), Math.floor(Date.now() / 1000 - 10 * 60).toString()));
+        assert.equal(stale.status, 401);
+
+        const small = createHandler(commands, [], client.publicKey, true, [], { algorithm: client.algorithm, maxBodySize: 64 });
+        const large = await quietly(() => send(JSON.stringify(interactions.command(pingCommand)), undefined, small));
+        assert.equal(large.status, 413);
+
+        const invalid = await quietly(() => send('not json'));
+        assert.equal(invalid.status, 400);
+    });
+
+    await check('a deferred command edits its response and sends a follow-up', async () => {
+        const interaction = interactions.command(slowCommand);
+        const { body } = await client.invoke(handler, interaction);
+        assert.deepEqual(body, { type: 5 });
+
+        const original = client.discord.messages.get(`@original:${interaction.token}`);
+        assert.equal(original.content, 'Finished');
+        assert.equal(original.flags & 128, 0);
+
+        const followups = client.discord.find('POST', `/webhooks/${interaction.application_id}/${interaction.token}`);
+        assert.equal(followups.length, 1);
+        assert.equal(followups[0].body.content, 'Follow-up');
+    });
+
+    await check('an autocomplete interaction responds with the matching choices for the focused option', async () => {
+        const { body } = await client.invoke(routingHandler, interactions.autocomplete(colorCommand, 'name', { options: { name: 'bl' } }));
+        assert.deepEqual(body, { type: 8, data: { choices: [ { name: 'blue', value: 'blue' }, { name: 'black', value: 'black' } ] } });
+    });
+
+    await check('options are parsed to their types, with resolved users', async () => {
+        const { body } = await client.invoke(routingHandler, interactions.command(pokeCommand, { options: { user: otherUser, count: 3 } }));
+        assert.deepEqual(JSON.parse(body.data.content), { user: 'other-user', count: 3 });
+    });
+
+    await check('subcommands and subcommands in groups are routed to their own execute', async () => {
+        const view = await client.invoke(routingHandler, interactions.command(settingsCommand, { subcommand: 'view' }));
+        assert.equal(view.body.data.content, 'Viewing settings');
+
+        const reset = await client.invoke(routingHandler, interactions.command(settingsCommand, { subcommand: 'admin reset', options: { confirm: true } }));
+        assert.equal(reset.body.data.content, 'Reset settings: true');
+    });
+
+    await check('components are routed by their name pattern or prefix, with any parameters parsed', async () => {
+        const pattern = await client.invoke(routingHandler, interactions.button(banComponent, { userId: '100000000000000002' }));
+        assert.deepEqual(pattern.body, { type: 7, data: { content: 'Banning 100000000000000002' } });
+
+        const prefix = await client.invoke(routingHandler, interactions.button('page-7'));
+        assert.deepEqual(prefix.body, { type: 7, data: { content: 'Prefix page-7' } });
+
+        const unknown = await quietly(() => client.invoke(routingHandler, interactions.button('unknown')));
+        assert.equal(unknown.response.status, 404);
+    });
+
+    await check('a submitted modal has its text input values flattened by custom_id', async () => {
+        const { body } = await client.invoke(routingHandler, interactions.modal(feedbackModal, { message: 'Great', rating: '5' }));
+        assert.deepEqual(JSON.parse(body.data.content), { message: 'Great', rating: '5' });
+    });
+
+    await check('middleware runs globally then per command, passing extra fields to execute, and can stop execution', async () => {
+        const tracked = await client.invoke(executionHandler, interactions.command(trackedCommand));
+        assert.equal(tracked.body.data.content, 'from middleware');
+        assert.deepEqual(calls, [ 'global', 'command', 'execute', 'global done' ]);
+
+        calls.length = 0;
+        const blocked = await client.invoke(executionHandler, interactions.command(blockedCommand));
+        assert.deepEqual(blocked.body, { type: 4, data: { content: 'Blocked', flags: 64 } });
+        assert.deepEqual(calls, [ 'global', 'global done' ]);
+    });
+
+    await check('a command on cooldown replies with an ephemeral message instead of executing', async () => {
+        const first = await client.invoke(executionHandler, interactions.command(limitedCommand));
+        assert.equal(first.body.data.content, 'Used');
+
+        const second = await client.invoke(executionHandler, interactions.command(limitedCommand));
+        assert.equal(second.body.data.flags, 64);
+        assert.match(second.body.data.content, /too often/);
+
+        const other = await client.invoke(executionHandler, interactions.command(limitedCommand, { user: otherUser }));
+        assert.equal(other.body.data.content, 'Used');
+    });
+
+    await check('errors reply with an ephemeral message, or edit the response once deferred', async () => {
+        const thrown = await quietly(() => client.invoke(executionHandler, interactions.command(brokenCommand)));
+        assert.deepEqual(thrown.body, { type: 4, data: { content: 'An unexpected error occurred when executing the command.', flags: 64 } });
+
+        const interaction = interactions.command(brokenLaterCommand);
+        const deferred = await quietly(() => client.invoke(executionHandler, interaction));
+        assert.deepEqual(deferred.body, { type: 5 });
+        assert.equal(client.discord.messages.get(`@original:${interaction.token}`).content, 'An unexpected error occurred when executing the command.');
+    });
+
+    await check('a slow command is automatically deferred, then its response is sent as an edit', async () => {
+        const quick = await client.invoke(executionHandler, interactions.command(quickCommand));
+        assert.deepEqual(quick.body, { type: 4, data: { content: 'Quick' } });
+
+        const interaction = interactions.command(lateCommand);
+        const late = await client.invoke(executionHandler, interaction);
+        assert.deepEqual(late.body, { type: 5 });
+        assert.equal(client.discord.messages.get(`@original:${interaction.token}`).content, 'Late');
+    });
+
+    await check('rate limited and failed requests are retried, except failed POSTs', async () => {
+        const rest = createClient('bot-token', { backoff: 1 });
+        const attempts = { GET: 0, PATCH: 0, POST: 0 };
+        client.discord.on('GET', '/channels/:id/messages/:messageId', () => ++attempts.GET === 1
+            ? new Response(JSON.stringify({ message: 'You are being rate limited.', retry_after: 0.01, global: false }), { status: 429 })
+            : { id: '500000000000000001', content: 'Fetched' });
+        client.discord.on('PATCH', '/channels/:id/messages/:messageId', () => ++attempts.PATCH === 1
+            ? new Response(null, { status: 502 })
+            : { id: '500000000000000001', content: 'Edited' });
+        client.discord.on('POST', '/channels/:id/messages', () => {
+            attempts.POST++;
+            return new Response(null, { status: 500 });
+        });
+
+        assert.equal((await rest.messages.get('300000000000000001', '500000000000000001')).content, 'Fetched');
+        assert.equal((await rest.messages.edit('300000000000000001', '500000000000000001', { content: 'Edited' })).content, 'Edited');
+        await assert.rejects(rest.messages.send('300000000000000001', { content: 'Once' }), err => err instanceof DiscordAPIError && err.status === 500);
+        assert.deepEqual(attempts, { GET: 2, PATCH: 2, POST: 1 });
+    });
+
+    await check('events are dispatched to their listeners, and the events route is only served with listeners', async () => {
+        const authorized = events.event('APPLICATION_AUTHORIZED', { user: otherUser, scopes: [ 'applications.commands' ] });
+        const { response } = await client.invoke(eventHandler, authorized, {}, 'https://example.com/events');
+        assert.equal(response.status, 204);
+        assert.equal(received.length, 1);
+        assert.equal(received[0].data.user.id, otherUser.id);
+
+        const inherited = await client.invoke(eventHandler, events.event('constructor', {}), {}, 'https://example.com/events');
+        assert.equal(inherited.response.status, 204);
+        assert.equal(received.length, 1);
+
+        const unrouted = await client.invoke(handler, events.ping(), {}, 'https://example.com/events');
+        assert.equal(unrouted.response, undefined);
+    });
+
+    await check('component state is verified, so tampered state is rejected', async () => {
+        const state = createComponentState({ secret });
+        const customId = await state.encode(createCustomId(panelComponent, { page: '2' }), { moderator: 'mod' });
+
+        const valid = await client.invoke(stateHandler, interactions.button(customId));
+        assert.deepEqual(valid.body, { type: 7, data: { content: 'Page 2 for mod' } });
+
+        const tampered = await client.invoke(stateHandler, interactions.button(customId.replace('"mod"', '"bad"')));
+        assert.deepEqual(tampered.body, { type: 4, data: { content: 'This has expired, please try again.', flags: 64 } });
+
+        const forged = await client.invoke(stateHandler, interactions.button(customId.replace('panel:2', 'panel:3')));
+        assert.equal(forged.body.data.content, 'This has expired, please try again.');
+    });
+
+    await check('pagination buttons only work for the user that started it, and are disabled once expired', async () => {
+        const { body } = await client.invoke(stateHandler, interactions.command(pagesCommand));
+        assert.equal(body.data.content, 'Page one');
+        const [ , next ] = buttons(body);
+
+        const pressed = await client.invoke(stateHandler, interactions.button(next, {}, { message: body.data }));
+        assert.equal(pressed.body.type, 7);
+        assert.equal(pressed.body.data.content, 'Page two');
+
+        const wrongUser = await client.invoke(stateHandler, interactions.button(next, {}, { user: otherUser, message: body.data }));
+        assert.deepEqual(wrongUser.body, { type: 4, data: { content: 'Only the user that started this can use these buttons.', flags: 64 } });
+
+        const expired = await client.invoke(stateHandler, interactions.command(expiredPagesCommand));
+        const stale = await client.invoke(stateHandler, interactions.button(buttons(expired.body)[1], {}, { message: expired.body.data }));
+        assert.equal(stale.body.type, 7);
+        assert.ok(stale.body.data.components.at(-1).components.every(button => button.disabled));
+    });
+
+    await check('a confirmation runs on confirm, then disables its buttons', async () => {
+        const { body } = await client.invoke(stateHandler, interactions.command(purgeCommand));
+        const [ confirm ] = buttons(body);
+
+        const confirmed = await client.invoke(stateHandler, interactions.button(confirm, {}, { message: body.data }));
+        assert.equal(confirmed.body.data.content, 'Purged 300000000000000001');
+        assert.ok(confirmed.body.data.components.at(-1).components.every(button => button.disabled));
+    });
+
+    await check('commands are registered, and only changed on later runs when they differ', async () => {
+        const first = await reconcileCommands('400000000000000001', 'secret', commands, true);
+        assert.deepEqual(first.plan.create.map(command => command.name), [ 'ping', 'slow' ]);
+        assert.equal(client.discord.commands.get('400000000000000001:global').length, 2);
+
+        const second = await reconcileCommands('400000000000000001', 'secret', commands, true);
+        assert.equal(second.plan.create.length + second.plan.patch.length + second.plan.remove.length, 0);
+        assert.equal(second.plan.unchanged.length, 2);
+
+        const third = await reconcileCommands('400000000000000001', 'secret', [ { ...pingCommand, description: 'Changed.' } ], true);
+        assert.deepEqual(third.plan.patch.map(({ command, diff }) => [ command.name, Object.keys(diff) ]), [ [ 'ping', [ 'description' ] ] ]);
+        assert.deepEqual(third.plan.remove.map(command => command.name), [ 'slow' ]);
+    });
+
+    await check('registerCommands resolves to the registered commands', async () => {
+        const registered = await registerCommands('400000000000000001', 'secret', commands, true);
+        assert.ok(Array.isArray(registered));
+        assert.deepEqual(registered.map(command => [ command.name, typeof command.discord.id ]), [ [ 'ping', 'string' ], [ 'slow', 'string' ] ]);
+    });
+} finally {
+    client.close();
+}
@@ -0,0 +1,113 @@
+import type { Context } from './structure';
+import type { Handler } from './handler';
+
+/**
+ * The parts of a Hono context used by {@link createHonoMiddleware}
+ */
+interface HonoContext {
+    req: { raw: Request };
+    env: any;
+    readonly executionCtx: ExecutionContext;
+}
+
+/**
+ * The parts of a Node `http.IncomingMessage` used by {@link createNodeListener}
+ */
+interface NodeRequest extends AsyncIterable<Uint8Array | string> {
+    method?: string;
+    url?: string;
+    headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * The parts of a Node `http.ServerResponse` used by {@link createNodeListener}
+ */
+interface NodeResponse {
+    statusCode: number;
+    setHeader: (name: string, value: string | string[]) => unknown;
+    end: (data?: Uint8Array) => unknown;
+}
+
+/**
+ * Create a context for runtimes without one, where work passed to `waitUntil` continues in the background
+ */
+const backgroundContext = <Ctx extends Context = Context>(context: Omit<Ctx, 'waitUntil'>) => ({
+    passThroughOnException: () => {},
+    ...context,
+    waitUntil: (promise: Promise<any>) => {
+        promise.catch(err => console.error(err));
+    },
+}) as unknown as Ctx;
+
+/**
+ * Create a generic fetch handler, for runtimes or routers that only pass a request
+ *
+ * Returns `undefined` for any request that isn't to one of the handler's routes
+ */
+export const createFetchHandler = <Ctx extends Context = Context>(handler: Handler<Ctx>, context: Omit<Ctx, 'waitUntil'> = {} as Omit<Ctx, 'waitUntil'>) =>
+    (request: Request) => handler(request, backgroundContext<Ctx>(context));
+
+/**
+ * Create Hono middleware that handles requests to the handler's routes, passing any other request to the next handler
+ *
+ * The context passed to the handler has the Hono `env` as `env`, alongside the execution context methods
+ */
+export const createHonoMiddleware = <Ctx extends Context = Context>(handler: Handler<Ctx>) =>
+    async (c: HonoContext, next: () => Promise<void>) => {
+        // Hono throws when accessing the execution context outside of Workers
+        let executionCtx: ExecutionContext | undefined;
+        try {
+            executionCtx = c.executionCtx;
+        } catch {
+            executionCtx = undefined;
+        }
+
+        const response = await handler(c.req.raw, executionCtx
+            ? {
+                env: c.env,
+                waitUntil: executionCtx.waitUntil.bind(executionCtx),
+                passThroughOnException: executionCtx.passThroughOnException.bind(executionCtx),
+            } as unknown as Ctx
+            : backgroundContext<Ctx>({ env: c.env } as unknown as Omit<Ctx, 'waitUntil'>));
+        if (response) return response;
+
+        await next();
+    };
+
+/**
+ * Create a Node `http` request listener, to run the same handler locally outside of Workers
+ *
+ * Responds with a 404 for any request that isn't to one of the handler's routes
+ * Node requires the `Ed25519` algorithm to verify requests, so pass `algorithm: PlatformAlgorithm.NewNode` (exported by this package) when creating the handler
+ */
+export const createNodeListener = <Ctx extends Context = Context>(handler: Handler<Ctx>, context: Omit<Ctx, 'waitUntil'> = {} as Omit<Ctx, 'waitUntil'>) =>
+    async (req: NodeRequest, res: NodeResponse) => {
+        try {
+            // Read the body, and build a request from it
+            const chunks: Uint8Array[] = [];
+            for await (const chunk of req)
+                chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+
+            const headers = new Headers();
+            for (const [ name, value ] of Object.entries(req.headers))
+                for (const item of Array.isArray(value) ? value : value === undefined ? [] : [ value ])
+                    headers.append(name, item);
+
+            const method = req.method ?? 'GET';
+            const request = new Request(new URL(req.url ?? '/', `http://${headers.get('host') ?? 'localhost'}`), {
+                method,
+                headers,
+                ...(method !== 'GET' && method !== 'HEAD' && { body: new Blob(chunks) }),
+            });
+
+            // Handle the request, and write the response back
+            const response = await handler(request, backgroundContext<Ctx>(context)) ?? new Response(null, { status: 404 });
+            res.statusCode = response.status;
+            response.headers.forEach((value, name) => res.setHeader(name, value));
+            res.end(new Uint8Array(await response.arrayBuffer()));
+        } catch (err) {
+            console.error(err);
+            res.statusCode = 500;
+            res.end();
+        }
+    };
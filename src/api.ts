@@ -1,5 +1,4 @@
 import {
-    RouteBases,
     Routes,
     type RESTPostOAuth2AccessTokenResult,
     type RESTGetAPIApplicationCommandsResult,
@@ -7,39 +6,26 @@ import {
     type RESTPostAPIApplicationCommandsResult,
     type RESTPatchAPIApplicationCommandJSONBody,
     type RESTPatchAPIApplicationCommandResult,
+    type RESTPutAPIApplicationCommandsJSONBody,
+    type RESTPutAPIApplicationCommandsResult,
     type RESTPostAPIWebhookWithTokenJSONBody,
     type RESTPostAPIWebhookWithTokenWaitResult,
     type RESTPatchAPIWebhookWithTokenMessageJSONBody,
     type RESTPatchAPIWebhookWithTokenMessageResult,
+    type RESTGetAPIWebhookWithTokenMessageResult,
+    type RESTGetAPIGuildApplicationCommandsPermissionsResult,
+    type RESTPutAPIApplicationCommandPermissionsJSONBody,
+    type RESTPutAPIApplicationCommandPermissionsResult,
 } from 'discord-api-types/rest';
 import { type APIInteraction } from 'discord-api-types/payloads';
 
-type Token = Pick<RESTPostOAuth2AccessTokenResult, 'access_token' | 'token_type'>;
+import { createRest, type Token } from './rest';
+import { messageBody, type WithFiles } from './files';
 
 /**
- * Make a request to a Discord API endpoint
+ * Make a request to a Discord API endpoint, respecting rate limits
  */
-const api = async (endpoint: string, method: 'GET' | 'POST' | 'PATCH' | 'DELETE', token?: Token, data?: any) => {
-    const dataIsJson = data !== undefined && !(data instanceof URLSearchParams) && !(data instanceof FormData);
-    const res = await fetch(
-        `${RouteBases.api}${endpoint}`,
-        {
-            method,
-            body: dataIsJson ? JSON.stringify(data) : data,
-            headers: {
-                ...(token !== undefined && { Authorization: `${token.token_type} ${token.access_token}` }),
-                ...(dataIsJson && { 'Content-Type': 'application/json' }),
-            },
-        },
-    );
-
-    if (!res.ok) {
-        const text = await res.text();
-        throw new Error(`Received unexpected status code ${res.status} from ${method} ${endpoint} - ${text}`);
-    }
-
-    return res;
-};
+const api = createRest();
 
 /**
  * Perform an OAuth2 token exchange
@@ -48,11 +34,18 @@ export const grantToken = (clientId: string, clientSecret: string) =>
     api(Routes.oauth2TokenExchange(), 'POST', { token_type: 'Basic', access_token: btoa(clientId + ':' + clientSecret) }, new URLSearchParams({ grant_type: 'client_credentials', scope: 'applications.commands.update' }))
         .then(res => res.json() as Promise<RESTPostOAuth2AccessTokenResult>);
 
+/**
+ * Exchange an OAuth2 authorization code for a user's access token
+ */
+export const exchangeCode = (clientId: string, clientSecret: string, code: string, redirectUri: string) =>
+    api(Routes.oauth2TokenExchange(), 'POST', { token_type: 'Basic', access_token: btoa(clientId + ':' + clientSecret) }, new URLSearchParams({ grant_type: 'authorization_code', code, redirect_uri: redirectUri }))
+        .then(res => res.json() as Promise<RESTPostOAuth2AccessTokenResult>);
+
 /**
  * Get an application's commands
  */
 export const getCommands = async (applicationId: string, token: Token, guildId?: string) =>
-    api(guildId ? Routes.applicationGuildCommands(applicationId, guildId) : Routes.applicationCommands(applicationId), 'GET', token)
+    api(`${guildId ? Routes.applicationGuildCommands(applicationId, guildId) : Routes.applicationCommands(applicationId)}?with_localizations=true`, 'GET', token)
         .then(res => res.json() as Promise<RESTGetAPIApplicationCommandsResult>);
 
 /**
@@ -76,16 +69,57 @@ export const removeCommand = async (applicationId: string, token: Token, command
     api(guildId ? Routes.applicationGuildCommand(applicationId, guildId, commandId) : Routes.applicationCommand(applicationId, commandId), 'DELETE', token)
         .then(() => {});
 
+/**
+ * Overwrite all commands for an application
+ */
+export const bulkOverwriteCommands = async (applicationId: string, token: Token, data: RESTPutAPIApplicationCommandsJSONBody, guildId?: string) =>
+    api(guildId ? Routes.applicationGuildCommands(applicationId, guildId) : Routes.applicationCommands(applicationId), 'PUT', token, data)
+        .then(res => res.json() as Promise<RESTPutAPIApplicationCommandsResult>);
+
+/**
+ * Get the permission overrides for all of an application's commands in a guild
+ */
+export const getCommandPermissions = async (applicationId: string, token: Token, guildId: string) =>
+    api(Routes.guildApplicationCommandsPermissions(applicationId, guildId), 'GET', token)
+        .then(res => res.json() as Promise<RESTGetAPIGuildApplicationCommandsPermissionsResult>);
+
+/**
+ * Overwrite the permission overrides for an application's command in a guild
+ */
+export const editCommandPermissions = async (applicationId: string, token: Token, guildId: string, commandId: string, data: RESTPutAPIApplicationCommandPermissionsJSONBody) =>
+    api(Routes.applicationCommandPermissions(applicationId, guildId, commandId), 'PUT', token, data)
+        .then(res => res.json() as Promise<RESTPutAPIApplicationCommandPermissionsResult>);
+
 /**
  * Send an additional response to an interaction
  */
-export const sendAdditional = async (interaction: APIInteraction, data: RESTPostAPIWebhookWithTokenJSONBody) =>
-    api(`${Routes.webhook(interaction.application_id, interaction.token)}?wait=true`, 'POST', undefined, data)
+export const sendAdditional = async (interaction: APIInteraction, data: WithFiles<RESTPostAPIWebhookWithTokenJSONBody>) =>
+    api(`${Routes.webhook(interaction.application_id, interaction.token)}?wait=true`, 'POST', undefined, messageBody(data))
         .then(res => res.json() as Promise<RESTPostAPIWebhookWithTokenWaitResult>);
 
 /**
  * Edit a deferred response to an interaction
  */
-export const editDeferred = async (interaction: APIInteraction, data: RESTPatchAPIWebhookWithTokenMessageJSONBody) =>
-    api(`${Routes.webhookMessage(interaction.application_id, interaction.token, interaction.message?.id || '@original')}?wait=true`, 'PATCH', undefined, data)
+export const editDeferred = async (interaction: APIInteraction, data: WithFiles<RESTPatchAPIWebhookWithTokenMessageJSONBody>) =>
+    editMessage(interaction, interaction.message?.id || '@original', data);
+
+/**
+ * Get a message sent in response to an interaction, either `@original` or a follow-up message ID
+ */
+export const getMessage = async (interaction: APIInteraction, messageId: string) =>
+    api(Routes.webhookMessage(interaction.application_id, interaction.token, messageId), 'GET')
+        .then(res => res.json() as Promise<RESTGetAPIWebhookWithTokenMessageResult>);
+
+/**
+ * Edit a message sent in response to an interaction, either `@original` or a follow-up message ID
+ */
+export const editMessage = async (interaction: APIInteraction, messageId: string, data: WithFiles<RESTPatchAPIWebhookWithTokenMessageJSONBody>) =>
+    api(`${Routes.webhookMessage(interaction.application_id, interaction.token, messageId)}?wait=true`, 'PATCH', undefined, messageBody(data))
         .then(res => res.json() as Promise<RESTPatchAPIWebhookWithTokenMessageResult>);
+
+/**
+ * Delete a message sent in response to an interaction, either `@original` or a follow-up message ID
+ */
+export const deleteMessage = async (interaction: APIInteraction, messageId: string) =>
+    api(Routes.webhookMessage(interaction.application_id, interaction.token, messageId), 'DELETE')
+        .then(() => {});
@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+import { ApplicationCommandType } from 'discord-api-types/payloads';
+
+import { getCommandData, getScopes, reconcileCommands, type RegisterResult } from './register';
+import { bulkOverwriteCommands, getCommands, grantToken } from './api';
+import { validateCommands, type Command } from './structure';
+
+/**
+ * The parts of Node's `process` used by the CLI, as Node's types conflict with the Workers types
+ */
+declare const process: {
+    argv: string[];
+    env: Record<string, string | undefined>;
+    exitCode?: number;
+    cwd: () => string;
+};
+
+const usage = `Usage: workers-discord <command> <module> [options]
+
+Commands:
+  register   Register the commands with Discord, only changing what differs
+  diff       Show the changes register would make, without making them, exiting with 1 if there are any
+  list       List the commands currently registered with Discord
+  export     Print the JSON manifest of commands Discord would receive
+  purge      Remove all the commands registered with Discord (requires --yes)
+
+The module should export an array (or object) of commands, as the default export or as \`commands\`.
+
+Options:
+  --guild <id>       Target a guild instead of global commands (defaults to DISCORD_GUILD_ID)
+  --dev-guild <id>   Guild to register commands with \`guilds: 'dev'\` in
+  --export <name>    Name of the module export with the commands
+  --env-file <path>  File to read environment variables from (defaults to .dev.vars)
+  --bulk             Register with a single bulk overwrite request
+  --strict           Exit with a non-zero code if validating the commands logs any warnings
+  --yes              Confirm purging commands
+
+Credentials are read from DISCORD_CLIENT_ID and DISCORD_CLIENT_SECRET, and DISCORD_PERMISSIONS_TOKEN if set.`;
+
+interface Args {
+    command?: string;
+    module?: string;
+    flags: { [flag: string]: string | true };
+}
+
+/**
+ * Load a Node built-in module, without Node's types which conflict with the Workers types
+ */
+const nodeModule = <T>(name: string) => import(name) as Promise<T>;
+
+/**
+ * Parse the command-line arguments into positionals and flags
+ */
+const parseArgs = (argv: string[]) => argv.reduce<Args & { pending?: string }>((args, arg) => {
+    if (args.pending) return { ...args, pending: undefined, flags: { ...args.flags, [args.pending]: arg } };
+    if ([ '--guild', '--dev-guild', '--export', '--env-file' ].includes(arg)) return { ...args, pending: arg.slice(2) };
+    if (arg.startsWith('--')) return { ...args, flags: { ...args.flags, [arg.slice(2)]: true } };
+    if (!args.command) return { ...args, command: arg };
+    if (!args.module) return { ...args, module: arg };
+    return args;
+}, { flags: {} });
+
+/**
+ * Parse the contents of a dotenv file, like `.dev.vars`
+ */
+const parseEnv = (contents: string) => contents.split(/\r?\n/).reduce<{ [key: string]: string }>((env, line) => {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match || line.trim().startsWith('#')) return env;
+
+    const [ , key, raw ] = match;
+    const quoted = /^(['"])(.*)\1$/.exec(raw);
+    return { ...env, [key]: quoted ? quoted[2] : raw.replace(/\s+#.*$/, '') };
+}, {});
+
+/**
+ * Read environment variables from a file, without overriding any already set
+ */
+const loadEnv = async (path: string, required: boolean) => {
+    const { readFile } = await nodeModule<{ readFile: (path: string, encoding: 'utf8') => Promise<string> }>('node:fs/promises');
+    const contents = await readFile(path, 'utf8').catch(err => {
+        if (required) throw err;
+        return '';
+    });
+
+    for (const [ key, value ] of Object.entries(parseEnv(contents)))
+        process.env[key] ??= value;
+};
+
+/**
+ * Import the commands from a module, relative to the current directory
+ */
+const loadCommands = async (path: string, name?: string) => {
+    const { pathToFileURL } = await nodeModule<{ pathToFileURL: (path: string) => URL }>('node:url');
+    const { resolve } = await nodeModule<{ resolve: (...paths: string[]) => string }>('node:path');
+    const mod = await import(pathToFileURL(resolve(process.cwd(), path)).href);
+
+    const exported = name ? mod[name] : mod.default ?? mod.commands;
+    if (typeof exported !== 'object' || exported === null)
+        throw new Error(`Expected ${path} to export an array or object of commands${name ? ` as ${name}` : ''}`);
+    return (Array.isArray(exported) ? exported : Object.values(exported)) as Command<any, any, any>[];
+};
+
+/**
+ * Validate the commands and the scopes they'll be registered in, counting any warnings logged
+ *
+ * Registration is then run without warnings, so each is only logged (and counted) once
+ */
+const validate = (commands: Command<any, any, any>[], guildId?: string, devGuildId?: string) => {
+    const warn = console.warn;
+    let warnings = 0;
+    console.warn = (...data: any[]) => {
+        warnings++;
+        warn(...data);
+    };
+
+    try {
+        const valid = Object.values(validateCommands(commands, true));
+        getScopes(valid, guildId, devGuildId ?? guildId, [], true);
+        if (!process.env.DISCORD_PERMISSIONS_TOKEN && valid.some(command => command.guildPermissions))
+            console.warn('Expected DISCORD_PERMISSIONS_TOKEN to be set to apply command guildPermissions');
+        return { commands: valid, warnings };
+    } finally {
+        console.warn = warn;
+    }
+};
+
+/**
+ * Get a required environment variable, throwing if it isn't set
+ */
+const requireEnv = (name: string) => {
+    const value = process.env[name];
+    if (!value) throw new Error(`Expected ${name} to be set`);
+    return value;
+};
+
+/**
+ * Describe a scope, as a guild or global
+ */
+const scopeName = (guildId?: string) => guildId ? `guild ${guildId}` : 'global';
+
+/**
+ * Describe the type of a command, for commands that aren't chat input commands
+ */
+const typeName = (type?: number) => ({
+    [ApplicationCommandType.User]: ' (user)',
+    [ApplicationCommandType.Message]: ' (message)',
+} as { [type: number]: string })[type ?? ApplicationCommandType.ChatInput] ?? '';
+
+/**
+ * Print the changes planned for each scope of a registration
+ */
+const printPlan = (result: RegisterResult<any, any, any>) => {
+    for (const { guildId, plan } of result.scopes) {
+        console.log(`${scopeName(guildId)}:`);
+        for (const command of plan.create)
+            console.log(`  + ${command.name}${typeName(command.type)}`);
+        for (const { command, diff } of plan.patch)
+            console.log(`  ~ ${command.name}${typeName(command.type)}: ${Object.keys(diff).join(', ')}`);
+        for (const command of plan.remove)
+            console.log(`  - ${command.name}${typeName(command.type)}`);
+        console.log(`  ${plan.unchanged.length} unchanged`);
+    }
+
+    for (const { guildId, command } of result.permissions.filter(p => p.changed))
+        console.log(`permissions ${scopeName(guildId)}: ~ ${command.name}${typeName(command.type)}`);
+};
+
+/**
+ * Check if a registration has any changes to commands or permissions in any scope
+ */
+const hasChanges = (result: RegisterResult<any, any, any>) =>
+    result.scopes.some(({ plan }) => plan.create.length || plan.patch.length || plan.remove.length)
+    || result.permissions.some(p => p.changed);
+
+/**
+ * Run the command-line tool
+ */
+const main = async (argv: string[]) => {
+    const args = parseArgs(argv);
+    if (!args.command || args.flags.help) {
+        console.log(usage);
+        return args.flags.help ? 0 : 2;
+    }
+
+    // Load the environment, and the commands for anything other than purging or listing
+    await loadEnv(typeof args.flags['env-file'] === 'string' ? args.flags['env-file'] : '.dev.vars', typeof args.flags['env-file'] === 'string');
+    const guildId = typeof args.flags.guild === 'string' ? args.flags.guild : process.env.DISCORD_GUILD_ID || undefined;
+    const devGuildId = typeof args.flags['dev-guild'] === 'string' ? args.flags['dev-guild'] : undefined;
+
+    const needsModule = [ 'register', 'diff', 'export' ].includes(args.command);
+    if (needsModule && !args.module) {
+        console.log(usage);
+        return 2;
+    }
+    const { commands, warnings } = needsModule
+        ? validate(await loadCommands(args.module!, typeof args.flags.export === 'string' ? args.flags.export : undefined), guildId, devGuildId)
+        : { commands: [], warnings: 0 };
+    if (warnings && args.flags.strict) {
+        console.error(`Found ${warnings} warning${warnings === 1 ? '' : 's'} when validating the commands`);
+        return 1;
+    }
+
+    switch (args.command) {
+        case 'register':
+        case 'diff': {
+            const result = await reconcileCommands(requireEnv('DISCORD_CLIENT_ID'), requireEnv('DISCORD_CLIENT_SECRET'), commands, false, guildId, {
+                dryRun: args.command === 'diff',
+                strategy: args.flags.bulk ? 'bulk' : 'individual',
+                devGuildId,
+                permissionsToken: process.env.DISCORD_PERMISSIONS_TOKEN,
+            });
+            printPlan(result);
+
+            // Fail a diff with any changes, so CI can check the commands are registered
+            return args.command === 'diff' && hasChanges(result) ? 1 : 0;
+        }
+
+        case 'list': {
+            const clientId = requireEnv('DISCORD_CLIENT_ID');
+            const token = await grantToken(clientId, requireEnv('DISCORD_CLIENT_SECRET'));
+            const registered = await getCommands(clientId, token, guildId);
+            console.log(`${scopeName(guildId)}:`);
+            for (const command of registered)
+                console.log(`  ${command.id}  ${command.name}${typeName(command.type)}`);
+            return 0;
+        }
+
+        case 'export': {
+            // Only include the commands that would be registered in the target scope
+            const scoped = getScopes(commands, guildId, devGuildId ?? guildId, []).get(guildId) || [];
+            console.log(JSON.stringify(scoped.map(getCommandData), null, 2));
+            return 0;
+        }
+
+        case 'purge': {
+            const clientId = requireEnv('DISCORD_CLIENT_ID');
+            const token = await grantToken(clientId, requireEnv('DISCORD_CLIENT_SECRET'));
+            const registered = await getCommands(clientId, token, guildId);
+            if (!args.flags.yes) {
+                console.log(`Would remove ${registered.length} command${registered.length === 1 ? '' : 's'} from ${scopeName(guildId)}, pass --yes to confirm`);
+                return 1;
+            }
+
+            await bulkOverwriteCommands(clientId, token, [], guildId);
+            console.log(`Removed ${registered.length} command${registered.length === 1 ? '' : 's'} from ${scopeName(guildId)}`);
+            return 0;
+        }
+
+        default:
+            console.log(usage);
+            return 2;
+    }
+};
+
+main(process.argv.slice(2))
+    .then(code => {
+        process.exitCode = code;
+    })
+    .catch(err => {
+        console.error(err instanceof Error ? err.message : err);
+        process.exitCode = 1;
+    });
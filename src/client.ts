@@ -0,0 +1,251 @@
+import {
+    Routes,
+    type RESTDeleteAPIChannelResult,
+    type RESTGetAPIChannelMessageReactionUsersQuery,
+    type RESTGetAPIChannelMessageReactionUsersResult,
+    type RESTGetAPIChannelMessageResult,
+    type RESTGetAPIChannelMessagesQuery,
+    type RESTGetAPIChannelMessagesResult,
+    type RESTGetAPIChannelPinsResult,
+    type RESTGetAPIChannelResult,
+    type RESTGetAPIChannelThreadMembersResult,
+    type RESTGetAPICurrentUserResult,
+    type RESTGetAPIGuildChannelsResult,
+    type RESTGetAPIGuildMemberResult,
+    type RESTGetAPIGuildMembersQuery,
+    type RESTGetAPIGuildMembersResult,
+    type RESTGetAPIGuildMembersSearchQuery,
+    type RESTGetAPIGuildMembersSearchResult,
+    type RESTGetAPIGuildRolesResult,
+    type RESTGetAPIUserResult,
+    type RESTPatchAPIChannelJSONBody,
+    type RESTPatchAPIChannelMessageJSONBody,
+    type RESTPatchAPIChannelMessageResult,
+    type RESTPatchAPIChannelResult,
+    type RESTPatchAPIGuildMemberJSONBody,
+    type RESTPatchAPIGuildMemberResult,
+    type RESTPatchAPIGuildRoleJSONBody,
+    type RESTPatchAPIGuildRoleResult,
+    type RESTPostAPIChannelMessageJSONBody,
+    type RESTPostAPIChannelMessageResult,
+    type RESTPostAPIChannelMessagesThreadsJSONBody,
+    type RESTPostAPIChannelMessagesThreadsResult,
+    type RESTPostAPIChannelThreadsJSONBody,
+    type RESTPostAPIChannelThreadsResult,
+    type RESTPostAPICurrentUserCreateDMChannelResult,
+    type RESTPostAPIGuildChannelJSONBody,
+    type RESTPostAPIGuildChannelResult,
+    type RESTPostAPIGuildRoleJSONBody,
+    type RESTPostAPIGuildRoleResult,
+    type RESTPutAPIGuildBanJSONBody,
+    type RESTGetAPISKUsResult,
+    type RESTGetAPIEntitlementsQuery,
+    type RESTGetAPIEntitlementsResult,
+    type RESTPostAPIEntitlementBody,
+    type RESTPostAPIEntitlementResult,
+} from 'discord-api-types/rest';
+
+import { createRest, type Method, type RestOptions, type Token } from './rest';
+import { messageBody, type WithFiles } from './files';
+
+/**
+ * Add a query string to an endpoint, skipping any undefined values
+ */
+const withQuery = (endpoint: string, query: object = {}) => {
+    const params = new URLSearchParams();
+    for (const [ key, value ] of Object.entries(query))
+        if (value !== undefined) params.append(key, String(value));
+    const search = params.toString();
+    return search ? `${endpoint}?${search}` : endpoint;
+};
+
+/**
+ * Get the headers to set an audit log reason, if given
+ */
+const withReason = (reason?: string): Record<string, string> => reason ? { 'X-Audit-Log-Reason': encodeURIComponent(reason) } : {};
+
+/**
+ * Encode an emoji for use in a reaction endpoint, either a unicode emoji or `name:id` for a custom emoji
+ */
+const encodeEmoji = (emoji: string) => encodeURIComponent(emoji.replace(/^<a?:/, '').replace(/>$/, ''));
+
+/**
+ * Create a new REST client for the Discord API, authenticated with a bot token or an OAuth2 token (e.g. from client credentials)
+ *
+ * Requests respect rate limits, tracked per client
+ */
+export const createClient = (auth: string | Token, options: RestOptions = {}) => {
+    const token: Token = typeof auth === 'string' ? { token_type: 'Bot', access_token: auth } : auth;
+    const rest = createRest(options);
+
+    /**
+     * Make an authenticated request to a Discord API endpoint, parsing the JSON response
+     */
+    const request = async <T = unknown>(endpoint: string, method: Method, data?: any, headers?: Record<string, string>) => {
+        const res = await rest(endpoint, method, token, data, headers);
+        return (res.status === 204 ? undefined : await res.json()) as T;
+    };
+
+    const messages = {
+        list: (channelId: string, query?: RESTGetAPIChannelMessagesQuery) =>
+            request<RESTGetAPIChannelMessagesResult>(withQuery(Routes.channelMessages(channelId), query), 'GET'),
+        get: (channelId: string, messageId: string) =>
+            request<RESTGetAPIChannelMessageResult>(Routes.channelMessage(channelId, messageId), 'GET'),
+        send: (channelId: string, data: WithFiles<RESTPostAPIChannelMessageJSONBody>) =>
+            request<RESTPostAPIChannelMessageResult>(Routes.channelMessages(channelId), 'POST', messageBody(data)),
+        edit: (channelId: string, messageId: string, data: WithFiles<RESTPatchAPIChannelMessageJSONBody>) =>
+            request<RESTPatchAPIChannelMessageResult>(Routes.channelMessage(channelId, messageId), 'PATCH', messageBody(data)),
+        delete: (channelId: string, messageId: string, reason?: string) =>
+            request<void>(Routes.channelMessage(channelId, messageId), 'DELETE', undefined, withReason(reason)),
+        bulkDelete: (channelId: string, messageIds: string[], reason?: string) =>
+            request<void>(Routes.channelBulkDelete(channelId), 'POST', { messages: messageIds }, withReason(reason)),
+        pins: (channelId: string) =>
+            request<RESTGetAPIChannelPinsResult>(Routes.channelPins(channelId), 'GET'),
+        pin: (channelId: string, messageId: string, reason?: string) =>
+            request<void>(Routes.channelPin(channelId, messageId), 'PUT', undefined, withReason(reason)),
+        unpin: (channelId: string, messageId: string, reason?: string) =>
+            request<void>(Routes.channelPin(channelId, messageId), 'DELETE', undefined, withReason(reason)),
+    };
+
+    const reactions = {
+        list: (channelId: string, messageId: string, emoji: string, query?: RESTGetAPIChannelMessageReactionUsersQuery) =>
+            request<RESTGetAPIChannelMessageReactionUsersResult>(withQuery(Routes.channelMessageReaction(channelId, messageId, encodeEmoji(emoji)), query), 'GET'),
+        add: (channelId: string, messageId: string, emoji: string) =>
+            request<void>(Routes.channelMessageOwnReaction(channelId, messageId, encodeEmoji(emoji)), 'PUT'),
+        /**
+         * Remove a reaction, for the current user by default
+         */
+        remove: (channelId: string, messageId: string, emoji: string, userId?: string) =>
+            request<void>(userId
+                ? Routes.channelMessageUserReaction(channelId, messageId, encodeEmoji(emoji), userId)
+                : Routes.channelMessageOwnReaction(channelId, messageId, encodeEmoji(emoji)), 'DELETE'),
+        /**
+         * Remove all reactions for an emoji, or all reactions if no emoji is given
+         */
+        removeAll: (channelId: string, messageId: string, emoji?: string) =>
+            request<void>(emoji
+                ? Routes.channelMessageReaction(channelId, messageId, encodeEmoji(emoji))
+                : Routes.channelMessageAllReactions(channelId, messageId), 'DELETE'),
+    };
+
+    const channels = {
+        get: (channelId: string) =>
+            request<RESTGetAPIChannelResult>(Routes.channel(channelId), 'GET'),
+        list: (guildId: string) =>
+            request<RESTGetAPIGuildChannelsResult>(Routes.guildChannels(guildId), 'GET'),
+        create: (guildId: string, data: RESTPostAPIGuildChannelJSONBody, reason?: string) =>
+            request<RESTPostAPIGuildChannelResult>(Routes.guildChannels(guildId), 'POST', data, withReason(reason)),
+        edit: (channelId: string, data: RESTPatchAPIChannelJSONBody, reason?: string) =>
+            request<RESTPatchAPIChannelResult>(Routes.channel(channelId), 'PATCH', data, withReason(reason)),
+        delete: (channelId: string, reason?: string) =>
+            request<RESTDeleteAPIChannelResult>(Routes.channel(channelId), 'DELETE', undefined, withReason(reason)),
+        typing: (channelId: string) =>
+            request<void>(Routes.channelTyping(channelId), 'POST'),
+    };
+
+    const threads = {
+        /**
+         * Start a thread without a message
+         */
+        create: (channelId: string, data: RESTPostAPIChannelThreadsJSONBody, reason?: string) =>
+            request<RESTPostAPIChannelThreadsResult>(Routes.threads(channelId), 'POST', data, withReason(reason)),
+        createFromMessage: (channelId: string, messageId: string, data: RESTPostAPIChannelMessagesThreadsJSONBody, reason?: string) =>
+            request<RESTPostAPIChannelMessagesThreadsResult>(Routes.threads(channelId, messageId), 'POST', data, withReason(reason)),
+        join: (threadId: string) =>
+            request<void>(Routes.threadMembers(threadId, '@me'), 'PUT'),
+        leave: (threadId: string) =>
+            request<void>(Routes.threadMembers(threadId, '@me'), 'DELETE'),
+        members: (threadId: string) =>
+            request<RESTGetAPIChannelThreadMembersResult>(Routes.threadMembers(threadId), 'GET'),
+        addMember: (threadId: string, userId: string) =>
+            request<void>(Routes.threadMembers(threadId, userId), 'PUT'),
+        removeMember: (threadId: string, userId: string) =>
+            request<void>(Routes.threadMembers(threadId, userId), 'DELETE'),
+    };
+
+    const members = {
+        get: (guildId: string, userId: string) =>
+            request<RESTGetAPIGuildMemberResult>(Routes.guildMember(guildId, userId), 'GET'),
+        list: (guildId: string, query?: RESTGetAPIGuildMembersQuery) =>
+            request<RESTGetAPIGuildMembersResult>(withQuery(Routes.guildMembers(guildId), query), 'GET'),
+        search: (guildId: string, query: RESTGetAPIGuildMembersSearchQuery) =>
+            request<RESTGetAPIGuildMembersSearchResult>(withQuery(Routes.guildMembersSearch(guildId), query), 'GET'),
+        edit: (guildId: string, userId: string, data: RESTPatchAPIGuildMemberJSONBody, reason?: string) =>
+            request<RESTPatchAPIGuildMemberResult>(Routes.guildMember(guildId, userId), 'PATCH', data, withReason(reason)),
+        kick: (guildId: string, userId: string, reason?: string) =>
+            request<void>(Routes.guildMember(guildId, userId), 'DELETE', undefined, withReason(reason)),
+        ban: (guildId: string, userId: string, data: RESTPutAPIGuildBanJSONBody = {}, reason?: string) =>
+            request<void>(Routes.guildBan(guildId, userId), 'PUT', data, withReason(reason)),
+        unban: (guildId: string, userId: string, reason?: string) =>
+            request<void>(Routes.guildBan(guildId, userId), 'DELETE', undefined, withReason(reason)),
+        addRole: (guildId: string, userId: string, roleId: string, reason?: string) =>
+            request<void>(Routes.guildMemberRole(guildId, userId, roleId), 'PUT', undefined, withReason(reason)),
+        removeRole: (guildId: string, userId: string, roleId: string, reason?: string) =>
+            request<void>(Routes.guildMemberRole(guildId, userId, roleId), 'DELETE', undefined, withReason(reason)),
+    };
+
+    const roles = {
+        list: (guildId: string) =>
+            request<RESTGetAPIGuildRolesResult>(Routes.guildRoles(guildId), 'GET'),
+        create: (guildId: string, data: RESTPostAPIGuildRoleJSONBody, reason?: string) =>
+            request<RESTPostAPIGuildRoleResult>(Routes.guildRoles(guildId), 'POST', data, withReason(reason)),
+        edit: (guildId: string, roleId: string, data: RESTPatchAPIGuildRoleJSONBody, reason?: string) =>
+            request<RESTPatchAPIGuildRoleResult>(Routes.guildRole(guildId, roleId), 'PATCH', data, withReason(reason)),
+        delete: (guildId: string, roleId: string, reason?: string) =>
+            request<void>(Routes.guildRole(guildId, roleId), 'DELETE', undefined, withReason(reason)),
+    };
+
+    const users = {
+        get: (userId: string) =>
+            request<RESTGetAPIUserResult>(Routes.user(userId), 'GET'),
+        me: () =>
+            request<RESTGetAPICurrentUserResult>(Routes.user('@me'), 'GET'),
+        /**
+         * Open a DM channel with a user
+         */
+        dmChannel: (userId: string) =>
+            request<RESTPostAPICurrentUserCreateDMChannelResult>(Routes.userChannels(), 'POST', { recipient_id: userId }),
+        /**
+         * Send a direct message to a user, opening a DM channel with them
+         */
+        dm: async (userId: string, data: WithFiles<RESTPostAPIChannelMessageJSONBody>) =>
+            messages.send((await users.dmChannel(userId)).id, data),
+    };
+
+    const skus = {
+        list: (applicationId: string) =>
+            request<RESTGetAPISKUsResult>(Routes.skus(applicationId), 'GET'),
+    };
+
+    const entitlements = {
+        list: (applicationId: string, query?: RESTGetAPIEntitlementsQuery) =>
+            request<RESTGetAPIEntitlementsResult>(withQuery(Routes.entitlements(applicationId), query), 'GET'),
+        /**
+         * Mark a one-time purchase entitlement as consumed
+         */
+        consume: (applicationId: string, entitlementId: string) =>
+            request<void>(Routes.consumeEntitlement(applicationId, entitlementId), 'POST'),
+        /**
+         * Create a test entitlement for a user or guild, without payment
+         */
+        createTest: (applicationId: string, data: RESTPostAPIEntitlementBody) =>
+            request<RESTPostAPIEntitlementResult>(Routes.entitlements(applicationId), 'POST', data),
+        deleteTest: (applicationId: string, entitlementId: string) =>
+            request<void>(Routes.entitlement(applicationId, entitlementId), 'DELETE'),
+    };
+
+    return {
+        request,
+        messages,
+        reactions,
+        channels,
+        threads,
+        members,
+        roles,
+        users,
+        skus,
+        entitlements,
+    };
+};
+
+export type Client = ReturnType<typeof createClient>;
@@ -0,0 +1,145 @@
+import type { Toucan } from 'toucan-js';
+
+import type { Context, Cooldown, Middleware, MiddlewareContext } from './structure';
+
+export interface CooldownStore {
+    /**
+     * Record a use of a key, returning the milliseconds until the next use is allowed if limited, or `0` if allowed
+     */
+    hit: (key: string, window: number, count: number) => Promise<number>;
+}
+
+/**
+ * Apply a hit to a sliding window of previous hits
+ *
+ * Window is in milliseconds, and hits are timestamps in milliseconds
+ */
+const slidingWindow = (hits: number[], now: number, window: number, count: number) => {
+    const recent = hits.filter(hit => hit > now - window);
+    if (recent.length >= count)
+        return { hits: recent, remaining: recent[recent.length - count] + window - now };
+    return { hits: [ ...recent, now ], remaining: 0 };
+};
+
+/**
+ * Create a new {@link CooldownStore} that keeps hits in memory
+ *
+ * Limits only apply within a single isolate, so may be exceeded when requests are spread across many isolates
+ */
+export const createMemoryCooldownStore = (): CooldownStore => {
+    const store = new Map<string, { hits: number[]; expires: number }>();
+
+    return {
+        hit: async (key, window, count) => {
+            const now = Date.now();
+            const { hits, remaining } = slidingWindow(store.get(key)?.hits || [], now, window, count);
+            store.set(key, { hits, expires: now + window });
+
+            // Clean up any keys where all the hits have expired
+            for (const [ k, v ] of store)
+                if (v.expires <= now) store.delete(k);
+
+            return remaining;
+        },
+    };
+};
+
+/**
+ * Create a new {@link CooldownStore} that keeps hits in Cloudflare KV
+ *
+ * KV is eventually consistent, so limits may briefly be exceeded across locations
+ */
+export const createKVCooldownStore = (kv: KVNamespace, prefix = 'cooldown:'): CooldownStore => ({
+    hit: async (key, window, count) => {
+        const now = Date.now();
+        const existing = await kv.get<number[]>(`${prefix}${key}`, 'json');
+        const { hits, remaining } = slidingWindow(existing || [], now, window, count);
+
+        // KV requires a TTL of at least 60 seconds
+        if (!remaining)
+            await kv.put(`${prefix}${key}`, JSON.stringify(hits), { expirationTtl: Math.max(60, Math.ceil(window / 1000)) });
+
+        return remaining;
+    },
+});
+
+/**
+ * Create a new {@link CooldownStore} that keeps hits in Durable Objects, one per key
+ *
+ * The namespace must be bound to the {@link CooldownDurableObject} class
+ */
+export const createDurableObjectCooldownStore = (namespace: DurableObjectNamespace): CooldownStore => ({
+    hit: async (key, window, count) => {
+        const stub = namespace.get(namespace.idFromName(key));
+        const res = await stub.fetch('https://cooldown/hit', {
+            method: 'POST',
+            body: JSON.stringify({ window, count }),
+        });
+        const { remaining } = await res.json() as { remaining: number };
+        return remaining;
+    },
+});
+
+/**
+ * Durable Object that tracks hits for a single cooldown key, for use with {@link createDurableObjectCooldownStore}
+ */
+export class CooldownDurableObject implements DurableObject {
+    private readonly state: DurableObjectState;
+
+    constructor(state: DurableObjectState) {
+        this.state = state;
+    }
+
+    async fetch(request: Request) {
+        const { window, count } = await request.json() as { window: number; count: number };
+
+        const now = Date.now();
+        const existing = await this.state.storage.get<number[]>('hits');
+        const { hits, remaining } = slidingWindow(existing || [], now, window, count);
+
+        // Store the hits, and clean them up once they have all expired
+        if (!remaining) {
+            await this.state.storage.put('hits', hits);
+            await this.state.storage.setAlarm(now + window);
+        }
+
+        return Response.json({ remaining });
+    }
+
+    async alarm() {
+        await this.state.storage.deleteAll();
+    }
+}
+
+/**
+ * Get the key to track a cooldown against, based on its scope
+ */
+const getCooldownKey = (context: MiddlewareContext<any, any, any>, scope: NonNullable<Cooldown['scope']>) => {
+    const { interaction } = context;
+    const user = interaction.member?.user.id ?? interaction.user?.id;
+
+    switch (scope) {
+        case 'global':
+            return `${context.kind}:${context.name}`;
+        case 'guild':
+            return `${context.kind}:${context.name}:guild:${interaction.guild_id ?? `user:${user}`}`;
+        case 'channel':
+            return `${context.kind}:${context.name}:channel:${interaction.channel?.id ?? interaction.channel_id}`;
+        default:
+            return `${context.kind}:${context.name}:user:${user}`;
+    }
+};
+
+/**
+ * Enforce a {@link Cooldown} before execution, replying with an ephemeral message when limited
+ */
+export const cooldown = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(config: Cooldown, store: CooldownStore): Middleware<Ctx, Req, Sentry> =>
+    async (context, next) => {
+        const remaining = await store.hit(getCooldownKey(context, config.scope ?? 'user'), config.window * 1000, config.count ?? 1);
+        if (!remaining) return next();
+
+        const seconds = Math.ceil(remaining / 1000);
+        return context.ephemeral(typeof config.message === 'function'
+            ? config.message(seconds)
+            : config.message ?? `You're doing that too often, try again <t:${Math.ceil((Date.now() + remaining) / 1000)}:R>.`);
+    };
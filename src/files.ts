@@ -0,0 +1,59 @@
+export interface FileData {
+    /**
+     * File name, including the extension, as shown in Discord
+     */
+    name: string;
+    data: Blob | ArrayBuffer | ArrayBufferView | string;
+    contentType?: string;
+    description?: string;
+}
+
+/**
+ * A message body that can include files to upload as attachments
+ */
+export type WithFiles<T> = T & { files?: FileData[] };
+
+/**
+ * Get the attachment metadata for a set of new files, after any existing attachments to keep
+ */
+const getAttachments = (files: FileData[], existing: any[] = []) => [
+    ...existing,
+    ...files.map((file, id) => ({
+        id,
+        filename: file.name,
+        ...(file.description !== undefined && { description: file.description }),
+    })),
+];
+
+/**
+ * Create a multipart form body with a JSON payload and files
+ */
+const createForm = (payload: any, files: FileData[]) => {
+    const form = new FormData();
+    form.append('payload_json', JSON.stringify(payload));
+    files.forEach((file, id) => form.append(
+        `files[${id}]`,
+        new Blob([ file.data ], { type: file.contentType ?? (file.data instanceof Blob ? file.data.type : undefined) }),
+        file.name,
+    ));
+    return form;
+};
+
+/**
+ * Create the body for a message, as multipart form data if it includes files
+ */
+export const messageBody = <T extends { attachments?: any[] | null }>({ files, ...data }: WithFiles<T>) => files?.length
+    ? createForm({ ...data, attachments: getAttachments(files, data.attachments || []) }, files)
+    : data;
+
+/**
+ * Create the body for an interaction response, as multipart form data if its message includes files
+ */
+export const responseBody = ({ type, data }: { type: number; data?: any }) => {
+    if (!data) return JSON.stringify({ type });
+
+    const { files, ...message } = data;
+    return files?.length
+        ? createForm({ type, data: { ...message, attachments: getAttachments(files, message.attachments || []) } }, files)
+        : JSON.stringify({ type, data: message });
+};
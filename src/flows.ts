@@ -0,0 +1,271 @@
+import {
+    ButtonStyle,
+    ComponentType,
+    type APIActionRowComponent,
+    type APIButtonComponentWithCustomId,
+    type APIInteraction,
+    type APIInteractionResponseCallbackData,
+    type APIMessageActionRowComponent,
+} from 'discord-api-types/payloads';
+import type { Toucan } from 'toucan-js';
+
+import type { AutoDefer, Component, ComponentMeta, Context, MiddlewareContext } from './structure';
+import { messageData, type MessageData } from './responses';
+import type { WithFiles } from './files';
+
+/**
+ * The execute context of the command or component a flow is used from
+ */
+export type FlowContext<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> = Omit<MiddlewareContext<Ctx, Req, Sentry>, 'kind' | 'name'>;
+
+interface FlowOptions {
+    /**
+     * Name the custom_ids of the flow's buttons start with, which must be unique across components and at most 24 characters
+     */
+    name: string;
+    /**
+     * Number of seconds without being used before the buttons expire, defaults to 15 minutes
+     *
+     * Buttons are not disabled when the timeout passes, only when an expired button is next pressed, as a Worker can't keep running that long after responding
+     */
+    timeout?: number;
+    /**
+     * Ephemeral message to reply with when someone other than the user that started the flow presses a button
+     */
+    wrongUserMessage?: string;
+    /**
+     * Automatically defer pressing a button if it takes too long, see {@link AutoDefer}
+     */
+    autoDefer?: AutoDefer;
+}
+
+export interface Flow<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    /**
+     * Components that handle the flow's buttons, registered by passing the flow to `createHandler` as one of `flows`
+     */
+    components: Component<Ctx, Req, Sentry>[];
+}
+
+export interface Page {
+    /**
+     * Message to show for the page
+     */
+    message: MessageData;
+    /**
+     * Total number of pages
+     */
+    total: number;
+}
+
+export interface PaginationOptions<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Data = undefined> extends FlowOptions {
+    /**
+     * Messages to show for each page, or a function to get the message for a page (starting from 0) with the total number of pages
+     */
+    pages: MessageData[] | ((page: number, data: Data, context: FlowContext<Ctx, Req, Sentry>) => Promise<Page> | Page);
+    /**
+     * Include a button to stop paging, disabling the buttons
+     */
+    stop?: boolean;
+    labels?: {
+        previous?: string;
+        next?: string;
+        stop?: string;
+    };
+}
+
+export interface Pagination<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Data = undefined> extends Flow<Ctx, Req, Sentry> {
+    /**
+     * Build the message for a page, with buttons to move between pages that only the user of the interaction can press
+     *
+     * Data must be JSON serializable, and is passed back to `pages` each time a button is pressed
+     */
+    message: (context: FlowContext<Ctx, Req, Sentry>, data: Data, page?: number) => Promise<WithFiles<APIInteractionResponseCallbackData>>;
+}
+
+export interface ConfirmationOptions<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Data = undefined> extends FlowOptions {
+    /**
+     * Run when the confirm button is pressed, returning the message to update the prompt with, or nothing to only disable the buttons
+     */
+    confirm: (data: Data, context: FlowContext<Ctx, Req, Sentry>) => Promise<MessageData | void> | MessageData | void;
+    /**
+     * Run when the cancel button is pressed, returning the message to update the prompt with, defaults to `Cancelled.`
+     */
+    cancel?: (data: Data, context: FlowContext<Ctx, Req, Sentry>) => Promise<MessageData | void> | MessageData | void;
+    labels?: {
+        confirm?: string;
+        cancel?: string;
+    };
+}
+
+export interface Confirmation<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Data = undefined> extends Flow<Ctx, Req, Sentry> {
+    /**
+     * Build the prompt message, with confirm and cancel buttons that only the user of the interaction can press
+     *
+     * Data must be JSON serializable, and is passed to `confirm` or `cancel` when a button is pressed
+     */
+    message: (context: FlowContext<Ctx, Req, Sentry>, data: Data, prompt: MessageData) => Promise<WithFiles<APIInteractionResponseCallbackData>>;
+}
+
+/**
+ * Get the ID of the user that triggered an interaction, in a guild or DM
+ */
+const getUserId = (interaction: APIInteraction) => interaction.member?.user.id ?? interaction.user?.id;
+
+/**
+ * Disable every button and select menu in a message's components, leaving link and premium buttons usable
+ */
+export const disableComponents = (components: APIActionRowComponent<APIMessageActionRowComponent>[] = []) => components.map(row => ({
+    ...row,
+    components: row.components.map(component => 'custom_id' in component ? { ...component, disabled: true } : component),
+}));
+
+/**
+ * Validate that a given value is an array of {@link Flow} objects, if set
+ */
+export const isFlows = (value: any) =>
+    value === undefined || (Array.isArray(value) && value.every(flow => typeof flow === 'object' && flow !== null && Array.isArray(flow.components)));
+
+/**
+ * Longest flow name that leaves room in the custom_id for the action, a user ID, a page, and stored state
+ */
+const maxNameLength = 24;
+
+/**
+ * Create the component that handles a flow's buttons, checking the user pressing a button is the one that started the flow
+ *
+ * The user and page are signed parameters in the custom_id, so only the flow's data is state, keeping most flows inline without the session store
+ */
+const createFlowComponent = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Data = undefined>(options: FlowOptions, execute: Component<Ctx, Req, Sentry, Data>['execute']): Component<Ctx, Req, Sentry, Data> => {
+    if (typeof options.name !== 'string' || options.name.length > maxNameLength)
+        throw new Error(`Expected flow name ${options.name} to be at most ${maxNameLength} characters`);
+
+    return {
+        name: `${options.name}:{action}:{user}:{page}`,
+        state: true,
+        expired: 'disable',
+        autoDefer: options.autoDefer,
+        execute: context => {
+            if (getUserId(context.interaction) !== context.params.user)
+                return context.ephemeral(options.wrongUserMessage ?? 'Only the user that started this can use these buttons.');
+            return execute(context);
+        },
+    };
+};
+
+/**
+ * Build a button for a flow, with the action, user and page as parameters in its custom_id, and the flow's data as its state
+ */
+const createButton = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Data = undefined>(context: FlowContext<Ctx, Req, Sentry>, component: ComponentMeta, action: string, page: number, data: Data, ttl: number, button: Omit<APIButtonComponentWithCustomId, 'type' | 'custom_id'>): Promise<APIButtonComponentWithCustomId> => ({
+    type: ComponentType.Button,
+    custom_id: await context.createStatefulCustomId(component, data, {
+        params: { action, user: getUserId(context.interaction) ?? '', page: page.toString() },
+        ttl,
+    }),
+    ...button,
+});
+
+/**
+ * Create a paginated message, with buttons to move between pages that update the message in place
+ *
+ * Requires `state` options to be passed to `createHandler`, as each button's custom_id is signed with the user, page and data
+ */
+export const createPagination = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Data = undefined>(options: PaginationOptions<Ctx, Req, Sentry, Data>): Pagination<Ctx, Req, Sentry, Data> => {
+    const { pages, stop = false, labels = {}, timeout = 15 * 60 } = options;
+
+    /**
+     * Build the message for a page, with the buttons to move to the pages either side of it
+     */
+    const render = async (context: FlowContext<Ctx, Req, Sentry>, page: number, state: Data): Promise<WithFiles<APIInteractionResponseCallbackData>> => {
+        const { message, total } = typeof pages === 'function'
+            ? await pages(page, state, context)
+            : { message: pages[page], total: pages.length };
+        if (!message)
+            throw new Error(`Expected pagination ${options.name} to have a page ${page}`);
+
+        const data = messageData(message);
+        return {
+            ...data,
+            components: [
+                ...data.components || [],
+                {
+                    type: ComponentType.ActionRow,
+                    components: [
+                        await createButton(context, component, 'previous', page - 1, state, timeout, {
+                            style: ButtonStyle.Secondary,
+                            label: labels.previous ?? 'Previous',
+                            disabled: page <= 0,
+                        }),
+                        await createButton(context, component, 'next', page + 1, state, timeout, {
+                            style: ButtonStyle.Secondary,
+                            label: labels.next ?? 'Next',
+                            disabled: page >= total - 1,
+                        }),
+                        ...stop ? [ await createButton(context, component, 'stop', page, state, timeout, {
+                            style: ButtonStyle.Danger,
+                            label: labels.stop ?? 'Stop',
+                        }) ] : [],
+                    ],
+                },
+            ],
+        };
+    };
+
+    const component = createFlowComponent<Ctx, Req, Sentry, Data>(options, async context => {
+        if (context.params.action === 'stop')
+            return context.update({ components: disableComponents(context.interaction.message.components) });
+        return context.update(await render(context, Number(context.params.page), context.state));
+    });
+
+    return {
+        components: [ component ],
+        message: (context, data, page = 0) => render(context, page, data),
+    };
+};
+
+/**
+ * Create a confirmation prompt, with confirm and cancel buttons that update the prompt and disable the buttons once pressed
+ *
+ * Requires `state` options to be passed to `createHandler`, as each button's custom_id is signed with the user and data
+ */
+export const createConfirmation = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Data = undefined>(options: ConfirmationOptions<Ctx, Req, Sentry, Data>): Confirmation<Ctx, Req, Sentry, Data> => {
+    const { confirm, cancel = () => 'Cancelled.', labels = {}, timeout = 15 * 60 } = options;
+
+    const component = createFlowComponent<Ctx, Req, Sentry, Data>(options, async context => {
+        const result = context.params.action === 'confirm'
+            ? await confirm(context.state, context)
+            : await cancel(context.state, context);
+
+        // Keep the buttons on the prompt, but disabled, unless the result has its own components
+        const data = result ? messageData(result) : {};
+        return context.update({
+            ...data,
+            components: data.components ?? disableComponents(context.interaction.message.components),
+        });
+    });
+
+    return {
+        components: [ component ],
+        message: async (context, data, prompt) => {
+            const message = messageData(prompt);
+            return {
+                ...message,
+                components: [
+                    ...message.components || [],
+                    {
+                        type: ComponentType.ActionRow,
+                        components: [
+                            await createButton(context, component, 'confirm', 0, data, timeout, {
+                                style: ButtonStyle.Danger,
+                                label: labels.confirm ?? 'Confirm',
+                            }),
+                            await createButton(context, component, 'cancel', 0, data, timeout, {
+                                style: ButtonStyle.Secondary,
+                                label: labels.cancel ?? 'Cancel',
+                            }),
+                        ],
+                    },
+                ],
+            };
+        },
+    };
+};
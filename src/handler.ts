@@ -4,123 +4,544 @@ import {
     MessageFlags,
     type APIInteraction,
     type APIApplicationCommandInteraction,
+    type APIChatInputApplicationCommandInteraction,
+    type APIApplicationCommandAutocompleteInteraction,
     type APIMessageComponentInteraction,
+    type APIModalSubmitInteraction,
 } from 'discord-api-types/payloads';
 import type { Toucan } from 'toucan-js';
-import { isValidRequest, PlatformAlgorithm } from 'discord-verify';
 
 import {
     validateCommands,
     validateComponents,
+    validateModals,
+    validateEventListeners,
     type Context,
     type Command,
     type Commands,
     type Component,
     type Components,
+    type ComponentMeta,
+    type ComponentParams,
+    type Modal,
+    type Modals,
+    type EventBody,
+    type EventListener,
+    type EventListeners,
+    type Middleware,
+    type AutoDefer,
     getInteractionName,
+    getAutocomplete,
+    getFocusedOption,
+    getModalValues,
+    getComponent,
+    getSubcommand,
+    getSubcommandPath,
+    getCommandOptions,
+    isMiddleware,
+    createCustomId,
 } from './structure';
-import { editDeferred, sendAdditional } from './api';
+import { createOptions } from './options';
+import { autocompleteResponse, createResponses, jsonResponse } from './responses';
+import { runMiddleware } from './middleware';
+import { cooldown, createMemoryCooldownStore, type CooldownStore } from './cooldown';
+import { createClient, type Client } from './client';
+import { createEntitlements, requireEntitlements } from './monetization';
+import { deleteMessage, editDeferred, editMessage, getMessage, sendAdditional } from './api';
+import { createComponentState, type ComponentState, type SessionStore, type StateOptions } from './state';
+import { isDuplicateInteraction, rejectRequest, verifyRequest, type VerifyOptions } from './verify';
+import { disableComponents, isFlows, type Flow } from './flows';
+
+export interface HandlerOptions<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> extends VerifyOptions {
+    /**
+     * Middleware to run, in order, around every command, component and modal execution
+     */
+    middleware?: Middleware<Ctx, Req, Sentry>[];
+    /**
+     * Storage for command and component cooldowns, defaults to an in-memory store
+     */
+    cooldownStore?: CooldownStore;
+    /**
+     * Handle an error thrown when executing a command, autocomplete, component or modal, or by work passed to `wait`
+     *
+     * Return a response to send instead of the default error message, which for deferred interactions is used to edit the deferred message
+     */
+    onError?: (error: unknown, details: ErrorDetails<Ctx, Req, Sentry>) => Response | undefined | void | Promise<Response | undefined | void>;
+    /**
+     * Bot token to authenticate a REST client with, made available as `client` when executing
+     */
+    botToken?: string;
+    /**
+     * Listeners for webhook events sent by Discord to `POST /events`, which is only served when there are listeners
+     */
+    events?: EventListener<Ctx, Req, Sentry, any>[];
+    /**
+     * Pagination and confirmation flows, whose components are registered alongside the other components
+     */
+    flows?: Flow<Ctx, Req, Sentry>[];
+    /**
+     * Development guild that commands with `guilds: 'dev'` are registered in
+     */
+    devGuildId?: string;
+    /**
+     * Signing and storage for components with `state`
+     */
+    state?: StateOptions;
+    /**
+     * Storage to remember interaction IDs in, so retries of the same interaction are rejected instead of executed twice
+     */
+    dedupeStore?: SessionStore;
+    /**
+     * Paths to serve each route at, or `false` to not serve it, defaults to `/interactions`, `/events` and `/health`
+     *
+     * The events route is only served by default if there are listeners for `events`
+     */
+    routes?: {
+        interactions?: string | false;
+        events?: string | false;
+        health?: string | false;
+    };
+}
+
+export interface Handler<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    /**
+     * Handle a request to any of the configured routes, returning `undefined` for any other request
+     */
+    (request: Req, context: Ctx, sentry?: Sentry): Promise<Response | undefined>;
+    /**
+     * Handle a request as a Discord interaction, regardless of its method and URL
+     */
+    handleInteraction: (request: Req, context: Ctx, sentry?: Sentry) => Promise<Response>;
+    /**
+     * Handle a request as a Discord webhook event, regardless of its method and URL
+     */
+    handleEvent: (request: Req, context: Ctx, sentry?: Sentry) => Promise<Response>;
+}
+
+interface ResolvedOptions<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> extends HandlerOptions<Ctx, Req, Sentry> {
+    client?: Client;
+    listeners: EventListeners<Ctx, Req, Sentry>;
+    componentState?: ComponentState;
+}
+
+export interface ErrorDetails<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    kind: 'command' | 'autocomplete' | 'component' | 'modal';
+    name: string;
+    interaction: APIInteraction;
+    request: Req;
+    context: Ctx;
+    sentry?: Sentry;
+    /**
+     * Whether the error was thrown by work passed to `wait`, after the interaction was responded to
+     */
+    background: boolean;
+    /**
+     * Whether the interaction was responded to with a deferred response
+     */
+    deferred: boolean;
+}
+
+type ErrorSource<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> = Omit<ErrorDetails<Ctx, Req, Sentry>, 'background' | 'deferred'>;
+
+const errorMessages = {
+    command: 'An unexpected error occurred when executing the command.',
+    autocomplete: 'An unexpected error occurred when autocompleting the command.',
+    component: 'An unexpected error occurred when using the component.',
+    modal: 'An unexpected error occurred when submitting the modal.',
+};
 
 /**
- * Create a new JSON response
+ * Create a new JSON response with an ephemeral message
  */
-const jsonResponse = (obj: any) => new Response(JSON.stringify(obj), {
-    headers: {
-        'Content-Type': 'application/json',
+const ephemeralResponse = (content: string) => jsonResponse({
+    type: InteractionResponseType.ChannelMessageWithSource,
+    data: {
+        content,
+        flags: MessageFlags.Ephemeral,
     },
 });
 
+/**
+ * Track the type of response sent for an interaction, so errors from work passed to `wait` can be handled correctly
+ */
+const createTracker = () => {
+    const responses = new WeakMap<Response, Parameters<typeof jsonResponse>[0]>();
+    let resolve = () => {};
+    const tracker = {
+        type: undefined as InteractionResponseType | undefined,
+        sent: new Promise<void>(res => {
+            resolve = res;
+        }),
+        response: (data: Parameters<typeof jsonResponse>[0]) => {
+            const response = jsonResponse(data);
+            responses.set(response, data);
+            return response;
+        },
+        data: (response: Response) => responses.get(response),
+        done: (response?: Response) => {
+            tracker.type = response && responses.get(response)?.type;
+            resolve();
+        },
+    };
+    return tracker;
+};
+
+/**
+ * Log and report an error, returning any custom response from the `onError` hook
+ */
+const handleError = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(err: unknown, details: ErrorDetails<Ctx, Req, Sentry>, options: HandlerOptions<Ctx, Req, Sentry>) => {
+    // Log any errors
+    console.log(details.interaction);
+    console.error(err);
+    if (details.sentry) details.sentry.captureException(err);
+
+    // Allow the error to be handled with a custom response
+    if (!options.onError) return undefined;
+    try {
+        return await options.onError(err, details) || undefined;
+    } catch (hookErr) {
+        console.error(hookErr);
+        if (details.sentry) details.sentry.captureException(hookErr);
+        return undefined;
+    }
+};
+
+/**
+ * Create a function to pass work to `waitUntil`, handling any error it throws once the interaction has been responded to
+ *
+ * Deferred messages are edited with the error message, and deferred updates get an ephemeral follow-up
+ */
+const createWait = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(source: ErrorSource<Ctx, Req, Sentry>, options: HandlerOptions<Ctx, Req, Sentry>, tracker: ReturnType<typeof createTracker>) =>
+    (promise: Promise<any>) => source.context.waitUntil(Promise.resolve(promise).catch(async err => {
+        await tracker.sent;
+        const deferred = tracker.type === InteractionResponseType.DeferredChannelMessageWithSource
+            || tracker.type === InteractionResponseType.DeferredMessageUpdate;
+
+        const custom = await handleError(err, { ...source, background: true, deferred }, options);
+        if (!deferred) return;
+
+        try {
+            const data = custom ? (await custom.json() as { data?: any }).data : { content: errorMessages[source.kind] };
+            if (tracker.type === InteractionResponseType.DeferredChannelMessageWithSource)
+                await editDeferred(source.interaction, data);
+            else
+                await sendAdditional(source.interaction, { ...data, flags: MessageFlags.Ephemeral });
+        } catch (editErr) {
+            console.error(editErr);
+            if (source.sentry) source.sentry.captureException(editErr);
+        }
+    }));
+
+/**
+ * Send the result of an execution that was automatically deferred, as an edit or follow-up
+ */
+const sendDeferred = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(source: ErrorSource<Ctx, Req, Sentry>, tracker: ReturnType<typeof createTracker>, type: 'message' | 'update', response: Response) => {
+    // Get the data for the response, either tracked or from the JSON body
+    const data = tracker.data(response) ?? await response.clone().json().catch(() => undefined) as Parameters<typeof jsonResponse>[0] | undefined;
+
+    switch (data?.type) {
+        case InteractionResponseType.ChannelMessageWithSource:
+            if (type === 'message') await editMessage(source.interaction, '@original', data.data || {});
+            else await sendAdditional(source.interaction, data.data || {});
+            return;
+
+        case InteractionResponseType.UpdateMessage:
+            if (type === 'update') await editDeferred(source.interaction, data.data || {});
+            else await editMessage(source.interaction, '@original', data.data || {});
+            return;
+
+        // Execution deferred itself, so will edit the response
+        case InteractionResponseType.DeferredChannelMessageWithSource:
+        case InteractionResponseType.DeferredMessageUpdate:
+            return;
+
+        default:
+            console.warn(`Expected ${source.kind} ${source.name} to respond with a message after being automatically deferred`);
+            if (type === 'message') await editMessage(source.interaction, '@original', { content: errorMessages[source.kind] });
+    }
+};
+
+/**
+ * Run an execution, handling any errors, and automatically deferring if it takes too long
+ */
+const runExecution = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(source: ErrorSource<Ctx, Req, Sentry>, options: HandlerOptions<Ctx, Req, Sentry>, tracker: ReturnType<typeof createTracker>, execute: () => Promise<Response>, autoDefer: AutoDefer = false) => {
+    const result = Promise.resolve().then(execute).catch(async err => {
+        // Send an ephemeral message to the user, unless handled
+        return await handleError(err, { ...source, background: false, deferred: false }, options)
+            ?? ephemeralResponse(errorMessages[source.kind]);
+    });
+
+    if (autoDefer === false) {
+        const response = await result;
+        tracker.done(response);
+        return response;
+    }
+
+    // Wait for execution, up to the threshold
+    const config = typeof autoDefer === 'object' ? autoDefer : { after: typeof autoDefer === 'number' ? autoDefer : undefined };
+    const { after = 2000, type = source.kind === 'component' ? 'update' : 'message', ephemeral = false } = config;
+    let timeout!: ReturnType<typeof setTimeout>;
+    const response = await Promise.race([
+        result,
+        new Promise<undefined>(resolve => {
+            timeout = setTimeout(resolve, after);
+        }),
+    ]);
+    clearTimeout(timeout);
+
+    if (response) {
+        tracker.done(response);
+        return response;
+    }
+
+    // Defer, sending the result once execution finishes
+    const deferred = tracker.response(type === 'update'
+        ? { type: InteractionResponseType.DeferredMessageUpdate }
+        : { type: InteractionResponseType.DeferredChannelMessageWithSource, ...(ephemeral && { data: { flags: MessageFlags.Ephemeral } }) });
+    tracker.done(deferred);
+    source.context.waitUntil(result
+        .then(res => sendDeferred(source, tracker, type, res))
+        .catch(err => handleError(err, { ...source, background: true, deferred: true }, options)));
+
+    return deferred;
+};
+
+/**
+ * Create functions to manage the messages sent in response to an interaction
+ */
+const createMessages = (interaction: APIInteraction) => ({
+    edit: editDeferred.bind(null, interaction),
+    more: sendAdditional.bind(null, interaction),
+    getOriginal: () => getMessage(interaction, '@original'),
+    editOriginal: editMessage.bind(null, interaction, '@original'),
+    deleteOriginal: () => deleteMessage(interaction, '@original'),
+    getFollowup: getMessage.bind(null, interaction),
+    editFollowup: editMessage.bind(null, interaction),
+    deleteFollowup: deleteMessage.bind(null, interaction),
+});
+
+/**
+ * Create the helper to build custom_ids for components with state
+ */
+const createStateful = (state?: ComponentState) => ({
+    createStatefulCustomId: async (component: ComponentMeta, data: unknown, { params, suffix, ttl }: { params?: ComponentParams; suffix?: string; ttl?: number } = {}) => {
+        if (!state)
+            throw new Error(`Expected state options to create a custom ID with state for component ${component.name}`);
+        return state.encode(createCustomId(component, params, suffix), data, ttl);
+    },
+});
+
+/**
+ * Check if a command interaction comes from a scope the command is registered in
+ *
+ * Guild-scoped commands are rejected if the interaction is for a global command, or a command registered in another guild
+ */
+const isInScope = (command: Command<any, any, any>, interaction: APIApplicationCommandInteraction | APIApplicationCommandAutocompleteInteraction, devGuildId?: string) => {
+    if (!command.guilds) return true;
+
+    const guildId = interaction.data.guild_id;
+    if (!guildId) return false;
+
+    return command.guilds === 'dev'
+        ? !devGuildId || guildId === devGuildId
+        : command.guilds.includes(guildId);
+};
+
 /**
  * Handle an incoming Discord command interaction request to the Worker
  */
-const handleCommandInteraction = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, interaction: APIApplicationCommandInteraction, commands: Commands<Ctx, Req, Sentry>, sentry?: Sentry) => {
+const handleCommandInteraction = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, interaction: APIApplicationCommandInteraction, commands: Commands<Ctx, Req, Sentry>, options: ResolvedOptions<Ctx, Req, Sentry>, sentry?: Sentry) => {
     const name = getInteractionName(interaction);
 
-    // If the command doesn't exist, return a 404
-    if (!commands[name])
+    // If the command doesn't exist, or isn't registered where it was used, return a 404
+    const command = commands[name];
+    if (!command || !isInScope(command, interaction, options.devGuildId))
+        return new Response(null, { status: 404 });
+
+    // If the command has subcommands, find the subcommand to execute
+    const path = getSubcommandPath('options' in interaction.data ? interaction.data.options : undefined);
+    const subcommands = 'subcommands' in command && !!command.subcommands;
+    const subcommand = subcommands ? getSubcommand(command, path) : undefined;
+    const execute = subcommands ? subcommand?.execute : command.execute;
+    if (!execute)
         return new Response(null, { status: 404 });
 
     // Sentry scope
     if (sentry) sentry.getScope().setTransactionName(`command: ${name}`);
     if (sentry) sentry.getScope().setTag('command', name);
+    if (sentry && subcommands) sentry.getScope().setTag('subcommand', path.join(' '));
 
     // Execute
+    const source: ErrorSource<Ctx, Req, Sentry> = { kind: 'command', name, interaction, request, context, sentry };
+    const tracker = createTracker();
+    return runExecution(source, options, tracker, () => runMiddleware([
+        ...options.middleware || [],
+        ...command.middleware || [],
+        ...subcommand?.middleware || [],
+        ...command.skus?.length ? [ requireEntitlements<Ctx, Req, Sentry>(command.skus) ] : [],
+        ...command.cooldown && options.cooldownStore ? [ cooldown<Ctx, Req, Sentry>(command.cooldown, options.cooldownStore) ] : [],
+    ], {
+        kind: 'command',
+        name,
+        interaction: interaction as any,
+        options: createOptions(interaction as APIChatInputApplicationCommandInteraction, getCommandOptions(command)),
+        response: tracker.response,
+        ...createResponses(tracker.response),
+        wait: createWait(source, options, tracker),
+        ...createMessages(interaction),
+        request,
+        context,
+        client: options.client,
+        ...createEntitlements(interaction),
+        ...createStateful(options.componentState),
+        sentry,
+        commands,
+    }, execute), command.autoDefer);
+};
+
+/**
+ * Handle an incoming Discord autocomplete interaction request to the Worker
+ */
+const handleAutocompleteInteraction = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, interaction: APIApplicationCommandAutocompleteInteraction, commands: Commands<Ctx, Req, Sentry>, options: ResolvedOptions<Ctx, Req, Sentry>, sentry?: Sentry) => {
+    const name = getInteractionName(interaction);
+
+    // If the command or focused option doesn't exist, or the command isn't registered where it was used, return a 404
+    const focused = getFocusedOption(interaction.data.options);
+    if (!commands[name] || !focused || !isInScope(commands[name], interaction, options.devGuildId))
+        return new Response(null, { status: 404 });
+
+    // If the command has no handler for the focused option, return a 404
+    const autocomplete = getAutocomplete(commands[name], focused.path);
+    if (!autocomplete)
+        return new Response(null, { status: 404 });
+
+    // Sentry scope
+    if (sentry) sentry.getScope().setTransactionName(`autocomplete: ${name}`);
+    if (sentry) sentry.getScope().setTag('command', name);
+    if (sentry) sentry.getScope().setTag('option', focused.path.join(' '));
+
+    // Execute
+    const source: ErrorSource<Ctx, Req, Sentry> = { kind: 'autocomplete', name, interaction, request, context, sentry };
+    const tracker = createTracker();
     try {
-        return commands[name].execute({
-            interaction: interaction as any,
-            response: jsonResponse,
-            wait: context.waitUntil.bind(context),
-            edit: editDeferred.bind(null, interaction),
-            more: sendAdditional.bind(null, interaction),
+        const choices = await autocomplete({
+            interaction,
+            focused,
+            wait: createWait(source, options, tracker),
             request,
             context,
+            client: options.client,
+            ...createEntitlements(interaction),
+            ...createStateful(options.componentState),
             sentry,
             commands,
         });
+
+        return autocompleteResponse(choices);
     } catch (err) {
-        // Log any errors
-        console.log(interaction);
-        console.error(err);
-        if (sentry) sentry.captureException(err);
-
-        // Send an ephemeral message to the user
-        return jsonResponse({
-            type: InteractionResponseType.ChannelMessageWithSource,
-            data: {
-                content: 'An unexpected error occurred when executing the command.',
-                flags: MessageFlags.Ephemeral,
-            },
-        });
+        // Send no choices to the user, unless handled
+        return await handleError(err, { ...source, background: false, deferred: false }, options)
+            ?? autocompleteResponse([]);
+    } finally {
+        tracker.done();
     }
 };
 
 /**
  * Handle an incoming Discord component interaction request to the Worker
  */
-const handleComponentInteraction = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, interaction: APIMessageComponentInteraction, components: Components<Ctx, Req, Sentry>, sentry?: Sentry) => {
+const handleComponentInteraction = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, interaction: APIMessageComponentInteraction, components: Components<Ctx, Req, Sentry>, options: ResolvedOptions<Ctx, Req, Sentry>, sentry?: Sentry) => {
     // If the component doesn't exist, return a 404
-    if (!components[interaction.data.custom_id])
+    const match = getComponent(components, interaction.data.custom_id);
+    if (!match)
         return new Response(null, { status: 404 });
 
     // Sentry scope
-    if (sentry) sentry.getScope().setTransactionName(`component: ${interaction.data.custom_id}`);
-    if (sentry) sentry.getScope().setTag('component', interaction.data.custom_id);
+    if (sentry) sentry.getScope().setTransactionName(`component: ${match.component.name}`);
+    if (sentry) sentry.getScope().setTag('component', match.component.name);
+
+    // If the component has state, verify it before running anything, and reply if it has expired or been tampered with
+    const decoded = match.component.state ? await options.componentState?.decode(interaction.data.custom_id) : undefined;
+    if (match.component.state && !decoded)
+        return match.component.expired === 'disable'
+            ? jsonResponse({ type: InteractionResponseType.UpdateMessage, data: { components: disableComponents(interaction.message.components) } })
+            : ephemeralResponse(options.state?.expiredMessage ?? 'This has expired, please try again.');
 
     // Execute
-    try {
-        return components[interaction.data.custom_id].execute({
-            interaction,
-            response: jsonResponse,
-            wait: context.waitUntil.bind(context),
-            edit: editDeferred.bind(null, interaction),
-            more: sendAdditional.bind(null, interaction),
-            request,
-            context,
-            sentry,
-        });
-    } catch (err) {
-        // Log any errors
-        console.log(interaction);
-        console.error(err);
-        if (sentry) sentry.captureException(err);
+    const source: ErrorSource<Ctx, Req, Sentry> = { kind: 'component', name: match.component.name, interaction, request, context, sentry };
+    const tracker = createTracker();
+    return runExecution(source, options, tracker, () => runMiddleware([
+        ...options.middleware || [],
+        ...match.component.middleware || [],
+        ...match.component.skus?.length ? [ requireEntitlements<Ctx, Req, Sentry>(match.component.skus) ] : [],
+        ...match.component.cooldown && options.cooldownStore ? [ cooldown<Ctx, Req, Sentry>(match.component.cooldown, options.cooldownStore) ] : [],
+    ], {
+        kind: 'component',
+        name: match.component.name,
+        interaction,
+        params: match.params,
+        state: decoded?.state,
+        response: tracker.response,
+        ...createResponses(tracker.response),
+        wait: createWait(source, options, tracker),
+        ...createMessages(interaction),
+        request,
+        context,
+        client: options.client,
+        ...createEntitlements(interaction),
+        ...createStateful(options.componentState),
+        sentry,
+    }, match.component.execute), match.component.autoDefer);
+};
 
-        // Send a 500
-        return new Response(null, { status: 500 });
-    }
+/**
+ * Handle an incoming Discord modal submit interaction request to the Worker
+ */
+const handleModalInteraction = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, interaction: APIModalSubmitInteraction, modals: Modals<Ctx, Req, Sentry>, options: ResolvedOptions<Ctx, Req, Sentry>, sentry?: Sentry) => {
+    // If the modal doesn't exist, return a 404
+    if (!modals[interaction.data.custom_id])
+        return new Response(null, { status: 404 });
+
+    // Sentry scope
+    if (sentry) sentry.getScope().setTransactionName(`modal: ${interaction.data.custom_id}`);
+    if (sentry) sentry.getScope().setTag('modal', interaction.data.custom_id);
+
+    // Execute
+    const modal = modals[interaction.data.custom_id];
+    const source: ErrorSource<Ctx, Req, Sentry> = { kind: 'modal', name: modal.name, interaction, request, context, sentry };
+    const tracker = createTracker();
+    return runExecution(source, options, tracker, () => runMiddleware([ ...options.middleware || [], ...modal.middleware || [] ], {
+        kind: 'modal',
+        name: modal.name,
+        interaction,
+        values: getModalValues(interaction),
+        response: tracker.response,
+        ...createResponses(tracker.response),
+        wait: createWait(source, options, tracker),
+        ...createMessages(interaction),
+        request,
+        context,
+        client: options.client,
+        ...createEntitlements(interaction),
+        ...createStateful(options.componentState),
+        sentry,
+    }, modal.execute));
 };
 
 /**
  * Handle an incoming Discord interaction request to the Worker
  */
-const handleInteraction = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, publicKey: string, commands: Commands<Ctx, Req, Sentry>, components: Components<Ctx, Req, Sentry>, sentry?: Sentry) => {
-    // Verify a legitimate request
-    if (!await isValidRequest(request, publicKey, PlatformAlgorithm.Cloudflare))
-        return new Response(null, { status: 401 });
-
-    // Get the JSON payload for the interaction request
-    const interaction = await request.json() as APIInteraction;
+const handleInteraction = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, publicKey: string, commands: Commands<Ctx, Req, Sentry>, components: Components<Ctx, Req, Sentry>, modals: Modals<Ctx, Req, Sentry>, options: ResolvedOptions<Ctx, Req, Sentry>, sentry?: Sentry) => {
+    // Verify a legitimate request, and get its JSON payload
+    const verified = await verifyRequest(request, publicKey, options, sentry);
+    if (verified instanceof Response) return verified;
+    const interaction = verified.body as APIInteraction;
     if (sentry) sentry.setRequestBody(interaction);
 
+    // Reject any retries of an interaction that has already been handled
+    if (options.dedupeStore && interaction.type !== InteractionType.Ping && await isDuplicateInteraction(options.dedupeStore, interaction.id))
+        return rejectRequest(409, 'duplicate interaction', sentry);
+
     // Handle different interaction types
     switch (interaction.type) {
         // Handle a PING
@@ -131,11 +552,19 @@ const handleInteraction = async <Ctx extends Context = Context, Req extends Requ
 
         // Handle a command
         case InteractionType.ApplicationCommand:
-            return handleCommandInteraction(request, context, interaction, commands, sentry);
+            return handleCommandInteraction(request, context, interaction, commands, options, sentry);
+
+        // Handle an autocomplete
+        case InteractionType.ApplicationCommandAutocomplete:
+            return handleAutocompleteInteraction(request, context, interaction, commands, options, sentry);
 
         // Handle a component
         case InteractionType.MessageComponent:
-            return handleComponentInteraction(request, context, interaction, components, sentry);
+            return handleComponentInteraction(request, context, interaction, components, options, sentry);
+
+        // Handle a modal submission
+        case InteractionType.ModalSubmit:
+            return handleModalInteraction(request, context, interaction, modals, options, sentry);
 
         // Unknown
         default:
@@ -144,18 +573,64 @@ const handleInteraction = async <Ctx extends Context = Context, Req extends Requ
 };
 
 /**
- * Handle an incoming request to the Worker
+ * Handle an incoming Discord webhook event request to the Worker
+ */
+const handleEvent = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, publicKey: string, options: ResolvedOptions<Ctx, Req, Sentry>, sentry?: Sentry) => {
+    // Verify a legitimate request, and get its JSON payload
+    const verified = await verifyRequest(request, publicKey, options, sentry);
+    if (verified instanceof Response) return verified;
+    const body = verified.body as EventBody;
+    if (sentry) sentry.setRequestBody(body);
+
+    // Handle a PING, or any event without listeners
+    const event = body.event;
+    const listeners = body.type === 1 && event && Object.hasOwn(options.listeners, event.type) ? options.listeners[event.type] : undefined;
+    if (!event || !listeners?.length)
+        return new Response(null, { status: 204 });
+
+    // Sentry scope
+    if (sentry) sentry.getScope().setTransactionName(`event: ${event.type}`);
+    if (sentry) sentry.getScope().setTag('event', event.type);
+
+    // Execute each listener, after acknowledging the event as Discord requires a response within 3 seconds
+    const wait = context.waitUntil.bind(context);
+    for (const listener of listeners) {
+        wait(Promise.resolve().then(() => listener.execute({
+            event,
+            wait,
+            request,
+            context,
+            client: options.client,
+            sentry,
+        })).catch(err => {
+            // Log any errors
+            console.log(body);
+            console.error(err);
+            if (sentry) sentry.captureException(err);
+        }));
+    }
+
+    return new Response(null, { status: 204 });
+};
+
+/**
+ * Handle an incoming request to the Worker, at the configured routes
  *
  *   - POST /interactions
+ *   - POST /events
  *   - GET  /health
  */
-const handleRequest = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, publicKey: string, commands: Commands<Ctx, Req, Sentry>, components: Components<Ctx, Req, Sentry>, sentry?: Sentry) => {
+const handleRequest = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(request: Req, context: Ctx, publicKey: string, commands: Commands<Ctx, Req, Sentry>, components: Components<Ctx, Req, Sentry>, modals: Modals<Ctx, Req, Sentry>, options: ResolvedOptions<Ctx, Req, Sentry>, sentry?: Sentry) => {
     const url = new URL(request.url);
+    const { interactions = '/interactions', events = Object.keys(options.listeners).length ? '/events' : false, health = '/health' } = options.routes || {};
+
+    if (request.method === 'POST' && interactions !== false && url.pathname === interactions)
+        return handleInteraction(request, context, publicKey, commands, components, modals, options, sentry);
 
-    if (request.method === 'POST' && url.pathname === '/interactions')
-        return handleInteraction(request, context, publicKey, commands, components, sentry);
+    if (request.method === 'POST' && events !== false && url.pathname === events)
+        return handleEvent(request, context, publicKey, options, sentry);
 
-    if (request.method === 'GET' && url.pathname === '/health')
+    if (request.method === 'GET' && health !== false && url.pathname === health)
         return new Response('OK', {
             headers: {
                 'Content-Type': 'text/plain',
@@ -169,13 +644,36 @@ const handleRequest = async <Ctx extends Context = Context, Req extends Request
 /**
  * Create a new Worker fetch handler for Discord interactions
  */
-const createHandler = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(commands: Command<Ctx, Req, Sentry>[], components: Component<Ctx, Req, Sentry>[], publicKey: string, warn = false) => {
-    // Validate the commands and components given
+const createHandler = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(commands: Command<Ctx, Req, Sentry>[], components: Component<Ctx, Req, Sentry>[], publicKey: string, warn = false, modals: Modal<Ctx, Req, Sentry>[] = [], options: HandlerOptions<Ctx, Req, Sentry> = {}): Handler<Ctx, Req, Sentry> => {
+    // Validate the commands, components (including those of any flows) and modals given
     const cmds = validateCommands<Ctx, Req, Sentry>(commands, warn);
-    const cmps = validateComponents<Ctx, Req, Sentry>(components, warn);
+    if (!isFlows(options.flows))
+        throw new Error('Expected flows to be an array of pagination or confirmation flows');
+    const cmps = validateComponents<Ctx, Req, Sentry>([ ...components, ...(options.flows || []).flatMap(flow => flow.components) ], warn);
+    const mdls = validateModals<Ctx, Req, Sentry>(modals, warn);
+    const listeners = validateEventListeners<Ctx, Req, Sentry>(options.events || [], warn);
+    if (!isMiddleware(options.middleware))
+        throw new Error('Expected middleware to be an array of functions');
+    if (warn && !options.state && Object.values(cmps).some(cmp => cmp.state))
+        console.warn('Expected state options to verify components with state');
+
+    // Default to an in-memory store for cooldowns, and create a client and state signing if configured
+    const opts: ResolvedOptions<Ctx, Req, Sentry> = {
+        ...options,
+        cooldownStore: options.cooldownStore ?? createMemoryCooldownStore(),
+        client: options.botToken ? createClient(options.botToken) : undefined,
+        listeners,
+        componentState: options.state ? createComponentState(options.state) : undefined,
+    };
 
-    // Return the handler
-    return (request: Req, context: Ctx, sentry?: Sentry) => handleRequest(request, context, publicKey, cmds, cmps, sentry);
+    // Return the handler, with the lower-level handlers for mounting routes elsewhere
+    return Object.assign(
+        (request: Req, context: Ctx, sentry?: Sentry) => handleRequest(request, context, publicKey, cmds, cmps, mdls, opts, sentry),
+        {
+            handleInteraction: (request: Req, context: Ctx, sentry?: Sentry) => handleInteraction(request, context, publicKey, cmds, cmps, mdls, opts, sentry),
+            handleEvent: (request: Req, context: Ctx, sentry?: Sentry) => handleEvent(request, context, publicKey, opts, sentry),
+        },
+    );
 };
 
 export default createHandler;
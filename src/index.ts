@@ -1,3 +1,16 @@
-export { default as createHandler } from './handler';
-export { default as registerCommands } from './register';
-export { type Command, type Component } from './structure';
+export { default as createHandler, type Handler, type HandlerOptions, type ErrorDetails } from './handler';
+export { createFetchHandler, createHonoMiddleware, createNodeListener } from './adapters';
+export { PlatformAlgorithm } from 'discord-verify';
+export { default as registerCommands, reconcileCommands, type RegisterOptions, type RegisterPlan, type RegisterScope, type RegisterPermissions, type RegisterResult } from './register';
+export { getPermissionsAuthorizeUrl, exchangePermissionsCode } from './oauth';
+export { createCustomId, type Command, type Cooldown, type AutoDefer, type Middleware, type MiddlewareContext, type Subcommand, type SubcommandGroup, type Component, type Modal, type Autocomplete, type FocusedOption, type ComponentParams, type EventListener, type Event, type EventType, type EventData } from './structure';
+export { type Options, type OptionValue, type OptionValues, type ResolvedMember } from './options';
+export { type MessageData, type MessageResponses, type UpdateResponses, type CommandResponses, type ComponentResponses, type ModalResponses } from './responses';
+export { type FileData, type WithFiles } from './files';
+export { createClient, type Client } from './client';
+export { DiscordAPIError, type RestOptions, type Token } from './rest';
+export { requirePermissions, guildOnly, dmOnly } from './middleware';
+export { requireEntitlements, getEntitlements, isEntitlementActive, type EntitlementOptions } from './monetization';
+export { createMemoryCooldownStore, createKVCooldownStore, createDurableObjectCooldownStore, CooldownDurableObject, type CooldownStore } from './cooldown';
+export { createPagination, createConfirmation, type Flow, type FlowContext, type Page, type Pagination, type PaginationOptions, type Confirmation, type ConfirmationOptions } from './flows';
+export { createComponentState, createMemorySessionStore, createKVSessionStore, type ComponentState, type SessionStore, type StateOptions } from './state';
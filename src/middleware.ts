@@ -0,0 +1,55 @@
+import { PermissionFlagsBits } from 'discord-api-types/payloads';
+import type { Toucan } from 'toucan-js';
+
+import type { Context, Middleware, MiddlewareContext } from './structure';
+
+/**
+ * Run a set of {@link Middleware} functions in order, followed by the execute function
+ */
+export const runMiddleware = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(middleware: Middleware<Ctx, Req, Sentry>[], context: MiddlewareContext<Ctx, Req, Sentry> & { [key: string]: any }, execute: (context: any) => Promise<Response> | Response) => {
+    const dispatch = async (index: number, current: typeof context): Promise<Response> => {
+        if (index >= middleware.length)
+            return execute(current);
+
+        let called = false;
+        return middleware[index](current, async extra => {
+            if (called)
+                throw new Error('Middleware called next() multiple times');
+            called = true;
+
+            // Add any extra fields to a new context for the rest of the chain, leaving the request's context untouched
+            return dispatch(index + 1, extra ? { ...current, ...extra } : current);
+        });
+    };
+
+    return dispatch(0, context);
+};
+
+/**
+ * Only allow execution if the member has all the given permissions (e.g. `PermissionFlagsBits.BanMembers`)
+ *
+ * Members with the Administrator permission are always allowed, and interactions outside a guild are rejected
+ */
+export const requirePermissions = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(permissions: bigint, message = 'You do not have permission to use this.'): Middleware<Ctx, Req, Sentry> =>
+    (context, next) => {
+        const member = context.interaction.member;
+        if (!member) return context.ephemeral(message);
+
+        const granted = BigInt(member.permissions);
+        if ((granted & PermissionFlagsBits.Administrator) === PermissionFlagsBits.Administrator || (granted & permissions) === permissions)
+            return next();
+
+        return context.ephemeral(message);
+    };
+
+/**
+ * Only allow execution within a guild
+ */
+export const guildOnly = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(message = 'This can only be used in a server.'): Middleware<Ctx, Req, Sentry> =>
+    (context, next) => context.interaction.guild_id ? next() : context.ephemeral(message);
+
+/**
+ * Only allow execution outside a guild, in DMs
+ */
+export const dmOnly = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(message = 'This can only be used in direct messages.'): Middleware<Ctx, Req, Sentry> =>
+    (context, next) => context.interaction.guild_id ? context.ephemeral(message) : next();
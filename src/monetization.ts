@@ -0,0 +1,72 @@
+import {
+    ButtonStyle,
+    ComponentType,
+    type APIEntitlement,
+    type APIInteraction,
+} from 'discord-api-types/payloads';
+import type { Toucan } from 'toucan-js';
+
+import type { Context, Middleware } from './structure';
+
+export interface EntitlementOptions {
+    /**
+     * Ephemeral message to reply with, alongside a premium button for each SKU
+     */
+    message?: string;
+    /**
+     * Respond with the deprecated premium required response, instead of a message with premium buttons
+     */
+    legacy?: boolean;
+}
+
+/**
+ * Check if an entitlement is currently active, not deleted, consumed or outside its start and end times
+ */
+export const isEntitlementActive = (entitlement: APIEntitlement, now = Date.now()) =>
+    !entitlement.deleted
+    && !entitlement.consumed
+    && (!entitlement.starts_at || Date.parse(entitlement.starts_at) <= now)
+    && (!entitlement.ends_at || Date.parse(entitlement.ends_at) > now);
+
+/**
+ * Get the active entitlements the user or guild holds for an interaction, optionally only for a set of SKUs
+ */
+export const getEntitlements = (interaction: APIInteraction, skus?: string[]) =>
+    (interaction.entitlements || []).filter(entitlement => isEntitlementActive(entitlement) && (!skus || skus.includes(entitlement.sku_id)));
+
+/**
+ * Create the entitlement helpers for the execute context of an interaction
+ */
+export const createEntitlements = (interaction: APIInteraction) => ({
+    entitlements: getEntitlements(interaction),
+    hasEntitlement: (...skus: string[]) => getEntitlements(interaction, skus).length > 0,
+});
+
+/**
+ * Only allow execution if the user or guild holds an active entitlement for any of the given SKUs
+ *
+ * Otherwise, replies with an ephemeral message with a premium button for each SKU (up to 5)
+ */
+export const requireEntitlements = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(skus: string[], options: EntitlementOptions = {}): Middleware<Ctx, Req, Sentry> =>
+    (context, next) => {
+        if (getEntitlements(context.interaction, skus).length)
+            return next();
+
+        // Prompt the user to upgrade
+        if (options.legacy)
+            return context.premiumRequired();
+
+        return context.ephemeral({
+            content: options.message ?? 'This requires a premium subscription.',
+            components: [
+                {
+                    type: ComponentType.ActionRow,
+                    components: skus.slice(0, 5).map(sku => ({
+                        type: ComponentType.Button,
+                        style: ButtonStyle.Premium,
+                        sku_id: sku,
+                    })),
+                },
+            ],
+        });
+    };
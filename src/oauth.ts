@@ -0,0 +1,26 @@
+import { OAuth2Scopes } from 'discord-api-types/payloads';
+import { OAuth2Routes } from 'discord-api-types/rest';
+
+import { exchangeCode } from './api';
+
+/**
+ * Get the URL to send a user to, to authorize the application to update command permissions on their behalf
+ *
+ * Discord redirects the user back to the redirect URI with a `code`, to exchange with {@link exchangePermissionsCode}
+ */
+export const getPermissionsAuthorizeUrl = (clientId: string, redirectUri: string, state?: string) =>
+    `${OAuth2Routes.authorizationURL}?${new URLSearchParams({
+        client_id: clientId,
+        response_type: 'code',
+        redirect_uri: redirectUri,
+        scope: OAuth2Scopes.ApplicationCommandsPermissionsUpdate,
+        ...(state !== undefined && { state }),
+    })}`;
+
+/**
+ * Exchange the code from an authorization redirect for a user's access token, to pass as `permissionsToken` to `registerCommands`
+ *
+ * The user must be able to manage the guild and its roles for Discord to accept permission changes made with the token
+ */
+export const exchangePermissionsCode = (clientId: string, clientSecret: string, code: string, redirectUri: string) =>
+    exchangeCode(clientId, clientSecret, code, redirectUri);
@@ -0,0 +1,173 @@
+import {
+    ApplicationCommandOptionType,
+    type APIApplicationCommandOption,
+    type APIApplicationCommandInteractionDataOption,
+    type APIApplicationCommandInteractionDataBasicOption,
+    type APIChatInputApplicationCommandInteraction,
+    type APIAttachment,
+    type APIInteractionDataResolvedChannel,
+    type APIInteractionDataResolvedGuildMember,
+    type APIRole,
+    type APIUser,
+} from 'discord-api-types/payloads';
+
+export type ResolvedMember = APIInteractionDataResolvedGuildMember & { user: APIUser };
+
+interface OptionValueTypes {
+    [ApplicationCommandOptionType.String]: string;
+    [ApplicationCommandOptionType.Integer]: number;
+    [ApplicationCommandOptionType.Number]: number;
+    [ApplicationCommandOptionType.Boolean]: boolean;
+    [ApplicationCommandOptionType.User]: APIUser;
+    [ApplicationCommandOptionType.Channel]: APIInteractionDataResolvedChannel;
+    [ApplicationCommandOptionType.Role]: APIRole;
+    [ApplicationCommandOptionType.Mentionable]: APIUser | APIRole;
+    [ApplicationCommandOptionType.Attachment]: APIAttachment;
+}
+
+/**
+ * The resolved value type for a given option type
+ */
+export type OptionValue<Type extends ApplicationCommandOptionType> = Type extends keyof OptionValueTypes ? OptionValueTypes[Type] : never;
+
+/**
+ * All basic (non-subcommand) options within a set of declared options, including those nested in subcommands
+ */
+type BasicOptions<Opts extends readonly APIApplicationCommandOption[]> = Opts[number] extends infer Option
+    ? Option extends { type: ApplicationCommandOptionType.Subcommand | ApplicationCommandOptionType.SubcommandGroup; options?: infer Nested }
+        ? Nested extends readonly APIApplicationCommandOption[] ? BasicOptions<Nested> : never
+        : Option
+    : never;
+
+/**
+ * The resolved value types for a set of declared options, keyed by option name
+ *
+ * Declare options `as const` to have the names, types and required flags inferred
+ */
+export type OptionValues<Opts extends readonly APIApplicationCommandOption[]> = {
+    [Option in BasicOptions<Opts> as Option extends { name: infer Name extends string } ? Name : never]: Option extends { type: infer Type extends ApplicationCommandOptionType }
+        ? Option extends { required: true } ? OptionValue<Type> : OptionValue<Type> | undefined
+        : never;
+};
+
+interface OptionGetter<T> {
+    (name: string, required: true): T;
+    (name: string, required?: boolean): T | undefined;
+}
+
+export interface Options<Opts extends readonly APIApplicationCommandOption[] = APIApplicationCommandOption[]> {
+    get: <Name extends keyof OptionValues<Opts> & string>(name: Name) => OptionValues<Opts>[Name];
+    getString: OptionGetter<string>;
+    getInteger: OptionGetter<number>;
+    getNumber: OptionGetter<number>;
+    getBoolean: OptionGetter<boolean>;
+    getUser: OptionGetter<APIUser>;
+    getMember: OptionGetter<ResolvedMember>;
+    getRole: OptionGetter<APIRole>;
+    getChannel: OptionGetter<APIInteractionDataResolvedChannel>;
+    getMentionable: OptionGetter<APIUser | APIRole>;
+    getAttachment: OptionGetter<APIAttachment>;
+}
+
+/**
+ * Get the basic options provided for the subcommand (if any) in a set of interaction options
+ */
+const getLeafOptions = (options: APIApplicationCommandInteractionDataOption[] | undefined): APIApplicationCommandInteractionDataBasicOption[] => {
+    const option = options?.[0];
+    if (option?.type === ApplicationCommandOptionType.SubcommandGroup || option?.type === ApplicationCommandOptionType.Subcommand)
+        return getLeafOptions(option.options);
+    return (options || []) as APIApplicationCommandInteractionDataBasicOption[];
+};
+
+/**
+ * Get the declared basic options for the subcommand (if any) used in a set of interaction options
+ */
+const getDeclaredOptions = (declared: readonly APIApplicationCommandOption[] | undefined, options: APIApplicationCommandInteractionDataOption[] | undefined): readonly APIApplicationCommandOption[] => {
+    const option = options?.[0];
+    if (option?.type === ApplicationCommandOptionType.SubcommandGroup || option?.type === ApplicationCommandOptionType.Subcommand) {
+        const nested = declared?.find(opt => opt.name === option.name && opt.type === option.type);
+        return getDeclaredOptions(nested && 'options' in nested ? nested.options : undefined, option.options);
+    }
+    return declared || [];
+};
+
+/**
+ * Create typed accessors for the options provided in a chat input command interaction
+ *
+ * Options nested in a subcommand or subcommand group are resolved automatically,
+ * and users, members, roles, channels and attachments are returned as their resolved objects
+ */
+export const createOptions = <Opts extends readonly APIApplicationCommandOption[] = APIApplicationCommandOption[]>(interaction: APIChatInputApplicationCommandInteraction, declared?: Opts): Options<Opts> => {
+    const provided = getLeafOptions(interaction.data.options);
+    const resolved = interaction.data.resolved || {};
+
+    // Resolve the value of an option, based on its type
+    const resolve = (option: APIApplicationCommandInteractionDataBasicOption) => {
+        switch (option.type) {
+            case ApplicationCommandOptionType.User:
+                return resolved.users?.[option.value];
+            case ApplicationCommandOptionType.Channel:
+                return resolved.channels?.[option.value];
+            case ApplicationCommandOptionType.Role:
+                return resolved.roles?.[option.value];
+            case ApplicationCommandOptionType.Mentionable:
+                return resolved.users?.[option.value] || resolved.roles?.[option.value];
+            case ApplicationCommandOptionType.Attachment:
+                return resolved.attachments?.[option.value];
+            default:
+                return option.value;
+        }
+    };
+
+    // Find an option by name, ensuring it is the expected type and is present if required
+    const find = (name: string, types: ApplicationCommandOptionType[] | undefined, required = false) => {
+        const option = provided.find(opt => opt.name === name);
+        if (!option) {
+            if (required)
+                throw new Error(`Missing required option ${name}`);
+            return undefined;
+        }
+
+        if (types && !types.includes(option.type))
+            throw new Error(`Expected option ${name} to be of type ${types.map(type => ApplicationCommandOptionType[type]).join(' or ')}, got ${ApplicationCommandOptionType[option.type]}`);
+
+        const value = resolve(option);
+        if (value === undefined && required)
+            throw new Error(`Missing resolved data for required option ${name}`);
+        return { option, value };
+    };
+
+    // Create a getter for a set of option types
+    const getter = <T>(types: ApplicationCommandOptionType[], map: (option: APIApplicationCommandInteractionDataBasicOption, value: any) => T | undefined = (_, value) => value) =>
+        ((name: string, required = false) => {
+            const found = find(name, types, required);
+            if (!found) return undefined;
+
+            const value = map(found.option, found.value);
+            if (value === undefined && required)
+                throw new Error(`Missing resolved data for required option ${name}`);
+            return value;
+        }) as OptionGetter<T>;
+
+    return {
+        get: name => {
+            const option = getDeclaredOptions(declared, interaction.data.options).find(opt => opt.name === name);
+            const found = find(name, option && [ option.type ], !!option?.required);
+            return found?.value as any;
+        },
+        getString: getter([ ApplicationCommandOptionType.String ]),
+        getInteger: getter([ ApplicationCommandOptionType.Integer ]),
+        getNumber: getter([ ApplicationCommandOptionType.Number, ApplicationCommandOptionType.Integer ]),
+        getBoolean: getter([ ApplicationCommandOptionType.Boolean ]),
+        getUser: getter([ ApplicationCommandOptionType.User, ApplicationCommandOptionType.Mentionable ], option => resolved.users?.[option.value as string]),
+        getMember: getter([ ApplicationCommandOptionType.User, ApplicationCommandOptionType.Mentionable ], option => {
+            const member = resolved.members?.[option.value as string];
+            const user = resolved.users?.[option.value as string];
+            return member && user ? { ...member, user } : undefined;
+        }),
+        getRole: getter([ ApplicationCommandOptionType.Role, ApplicationCommandOptionType.Mentionable ], option => resolved.roles?.[option.value as string]),
+        getChannel: getter([ ApplicationCommandOptionType.Channel ]),
+        getMentionable: getter([ ApplicationCommandOptionType.Mentionable, ApplicationCommandOptionType.User, ApplicationCommandOptionType.Role ]),
+        getAttachment: getter([ ApplicationCommandOptionType.Attachment ]),
+    };
+};
@@ -1,11 +1,13 @@
 import type {
     APIApplicationCommand,
     APIApplicationCommandOption,
+    APIApplicationCommandPermission,
     ApplicationIntegrationType,
     InteractionContextType,
 } from 'discord-api-types/payloads';
 import { ApplicationCommandType } from 'discord-api-types/payloads';
-import type { RESTPatchAPIApplicationCommandJSONBody } from 'discord-api-types/rest';
+import type { LocalizationMap } from 'discord-api-types/v10';
+import type { RESTPatchAPIApplicationCommandJSONBody, RESTPostAPIApplicationCommandsJSONBody } from 'discord-api-types/rest';
 import { dequal } from 'dequal';
 import type { Toucan } from 'toucan-js';
 
@@ -15,24 +17,43 @@ import {
     registerCommand,
     updateCommand,
     removeCommand,
+    bulkOverwriteCommands,
+    getCommandPermissions,
+    editCommandPermissions,
 } from './api';
+import type { Token } from './rest';
 import {
     validateCommands,
+    getCommandOptions,
     type Context,
     type Command,
-    type CommandMeta
+    type CommandMeta,
+    type CommandMetaChatInput,
 } from './structure';
 
 interface Option {
     type: number;
     name: string;
+    name_localizations: LocalizationMap | null;
     description: string;
+    description_localizations: LocalizationMap | null;
     required: boolean;
-    choices: any[];
+    choices: { name: string; name_localizations: LocalizationMap | null; value: string | number }[];
     options: Option[];
+    min_value: number | null;
+    max_value: number | null;
+    min_length: number | null;
+    max_length: number | null;
+    channel_types: number[];
+    autocomplete: boolean;
 }
 
-const ratelimit = 20_000 / 5;
+/**
+ * Ensure a localization map is consistent, treating an empty map as no map
+ *
+ * Useful when doing deep-equal checks for localization equality
+ */
+const consistentLocalizations = (obj: LocalizationMap | null | undefined) => obj && Object.keys(obj).length ? obj : null;
 
 /**
  * Ensure a command option object has a consistent structure
@@ -42,12 +63,31 @@ const ratelimit = 20_000 / 5;
 const consistentCommandOption = (obj: APIApplicationCommandOption): Option => ({
     type: obj.type,
     name: obj.name,
+    name_localizations: consistentLocalizations(obj.name_localizations),
     description: obj.description,
+    description_localizations: consistentLocalizations(obj.description_localizations),
     required: !!obj.required,
-    choices: ('choices' in obj && obj.choices) || [],
+    choices: (('choices' in obj && obj.choices) || []).map(choice => ({
+        name: choice.name,
+        name_localizations: consistentLocalizations(choice.name_localizations),
+        value: choice.value,
+    })),
     options: ('options' in obj && obj.options?.map(consistentCommandOption)) || [],
+    min_value: 'min_value' in obj ? obj.min_value ?? null : null,
+    max_value: 'max_value' in obj ? obj.max_value ?? null : null,
+    min_length: 'min_length' in obj ? obj.min_length ?? null : null,
+    max_length: 'max_length' in obj ? obj.max_length ?? null : null,
+    channel_types: consistentContexts('channel_types' in obj ? obj.channel_types : undefined) || [],
+    autocomplete: 'autocomplete' in obj && !!obj.autocomplete,
 });
 
+/**
+ * Ensure a permissions bitfield is consistent, as a string
+ *
+ * Useful when doing deep-equal checks for permissions equality
+ */
+const consistentPermissions = (value: bigint | string | null | undefined) => value === undefined || value === null ? null : value.toString();
+
 /**
  * Ensure an array of context types is consistent
  *
@@ -55,6 +95,15 @@ const consistentCommandOption = (obj: APIApplicationCommandOption): Option => ({
  */
 const consistentContexts = (arr: number[] | undefined) => arr && [ ...new Set(arr) ].sort();
 
+/**
+ * Ensure a set of command permission overrides is consistent, sorted by type and ID
+ *
+ * Useful when doing deep-equal checks for permission override equality
+ */
+const consistentCommandPermissions = (arr: APIApplicationCommandPermission[]) => arr
+    .map(({ id, type, permission }) => ({ id, type, permission }))
+    .sort((a, b) => a.type - b.type || a.id.localeCompare(b.id));
+
 /**
  * Get the patch required to update a command
  */
@@ -67,17 +116,33 @@ const updatedCommandProps = (oldCmd: CommandMeta, newCmd: CommandMeta) => {
         options: APIApplicationCommandOption[];
         integration_types: ApplicationIntegrationType[];
         contexts: InteractionContextType[];
+        name_localizations: LocalizationMap | null;
+        description_localizations: LocalizationMap | null;
+        default_member_permissions: string | null;
+        nsfw: boolean;
     }>;
     const patch: Patch = {};
 
     if (oldCmd.name !== newCmd.name) patch.name = newCmd.name;
+    if (!dequal(
+        consistentLocalizations(oldCmd.name_localizations),
+        consistentLocalizations(newCmd.name_localizations),
+    )) patch.name_localizations = consistentLocalizations(newCmd.name_localizations);
     if (oldCmd.type !== (newCmd.type ?? ApplicationCommandType.ChatInput)) patch.type = newCmd.type as Patch['type'];
 
-    if ((oldCmd as APIApplicationCommand).description !== (newCmd as APIApplicationCommand).description) patch.description = (newCmd as APIApplicationCommand).description;
+    // Discord returns an empty description for context menu commands
+    if (((oldCmd as APIApplicationCommand).description || '') !== ((newCmd as APIApplicationCommand).description || '')) patch.description = (newCmd as APIApplicationCommand).description;
     if (!dequal(
         (oldCmd as APIApplicationCommand).options?.map(consistentCommandOption),
         (newCmd as APIApplicationCommand).options?.map(consistentCommandOption),
     )) patch.options = (newCmd as APIApplicationCommand).options;
+    if (!dequal(
+        consistentLocalizations((oldCmd as CommandMetaChatInput).description_localizations),
+        consistentLocalizations((newCmd as CommandMetaChatInput).description_localizations),
+    )) patch.description_localizations = consistentLocalizations((newCmd as CommandMetaChatInput).description_localizations);
+    if (consistentPermissions(oldCmd.default_member_permissions) !== consistentPermissions(newCmd.default_member_permissions))
+        patch.default_member_permissions = consistentPermissions(newCmd.default_member_permissions);
+    if (!!oldCmd.nsfw !== !!newCmd.nsfw) patch.nsfw = !!newCmd.nsfw;
     if (!dequal(
         consistentContexts(oldCmd.contexts?.installation),
         consistentContexts(newCmd.contexts?.installation),
@@ -90,84 +155,320 @@ const updatedCommandProps = (oldCmd: CommandMeta, newCmd: CommandMeta) => {
     return patch;
 };
 
-/**
- * Register or update commands with Discord
- */
-const registerCommands = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(clientId: string, clientSecret: string, commands: Command<Ctx, Req, Sentry>[], warn = false, guildId?: string) => {
-    // Validate the provided commands
-    const cmds = Object.values(validateCommands<Ctx, Req, Sentry>(commands, warn));
+type CommandPatch = ReturnType<typeof updatedCommandProps>;
 
-    // Get a token, and our existing commands, from Discord
-    const token = await grantToken(clientId, clientSecret);
-    const discordCommands = await getCommands(clientId, token, guildId);
+export interface RegisterOptions {
+    /**
+     * Only plan the changes to make, without making any changes in Discord
+     */
+    dryRun?: boolean;
+    /**
+     * How changes are applied to Discord
+     *
+     *   - `individual`: create, patch and delete each changed command with separate requests
+     *   - `bulk`: overwrite the entire set of commands in a single request
+     */
+    strategy?: 'individual' | 'bulk';
+    /**
+     * Guild to register commands with `guilds: 'dev'` in, defaulting to the guild commands are registered in
+     */
+    devGuildId?: string;
+    /**
+     * Additional guilds to manage, removing any commands registered there that are no longer in the code
+     */
+    guilds?: string[];
+    /**
+     * User access token with the `applications.commands.permissions.update` scope, required to apply `guildPermissions`
+     *
+     * Get one with `getPermissionsAuthorizeUrl` and `exchangePermissionsCode`
+     */
+    permissionsToken?: string;
+}
 
-    // Remove any commands that no longer exist in the code
-    const toRemove = discordCommands.filter(cmd => !cmds.find(c => c.name === cmd.name));
-    for (let i = 0; i < toRemove.length; i++) {
-        // Naive avoidance of rate limits
-        if (i >= 5) await new Promise(resolve => setTimeout(resolve, ratelimit));
+export interface RegisterPlan<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    create: Command<Ctx, Req, Sentry>[];
+    patch: { command: Command<Ctx, Req, Sentry>; discord: APIApplicationCommand; diff: CommandPatch }[];
+    remove: APIApplicationCommand[];
+    unchanged: { command: Command<Ctx, Req, Sentry>; discord: APIApplicationCommand }[];
+}
 
-        // Remove the command
-        const command = toRemove[i];
-        await removeCommand(clientId, token, command.id, guildId);
-    }
+export interface RegisterScope<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    /**
+     * Guild the commands are registered in, or `undefined` for global commands
+     */
+    guildId?: string;
+    plan: RegisterPlan<Ctx, Req, Sentry>;
+    commands: (Command<Ctx, Req, Sentry> & { discord: APIApplicationCommand })[];
+}
+
+export interface RegisterResult<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    strategy: NonNullable<RegisterOptions['strategy']>;
+    dryRun: boolean;
+    /**
+     * Combined plan across all scopes
+     */
+    plan: RegisterPlan<Ctx, Req, Sentry>;
+    /**
+     * Combined commands across all scopes
+     */
+    commands: (Command<Ctx, Req, Sentry> & { discord: APIApplicationCommand })[];
+    scopes: RegisterScope<Ctx, Req, Sentry>[];
+    permissions: RegisterPermissions<Ctx, Req, Sentry>[];
+}
 
-    // Track the commands we've registered or updated
-    const commandData: (Command<Ctx, Req, Sentry> & { discord: APIApplicationCommand })[] = [];
+export interface RegisterPermissions<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    guildId: string;
+    command: Command<Ctx, Req, Sentry>;
+    /**
+     * ID of the command in Discord, or `undefined` if it isn't registered yet
+     */
+    commandId?: string;
+    current: APIApplicationCommandPermission[];
+    desired: APIApplicationCommandPermission[];
+    changed: boolean;
+}
 
-    // Patch any commands that already exist in Discord
-    const toPatch = cmds.reduce((arr, command) => {
-        const discord = discordCommands.find(c => c.name === command.name && c.type === (command.type ?? ApplicationCommandType.ChatInput));
-        if (!discord) return arr;
+/**
+ * Check if a command in Discord is the same command as one in the code
+ */
+const isSameCommand = (discord: APIApplicationCommand, command: Command<any, any, any>) =>
+    discord.name === command.name && discord.type === (command.type ?? ApplicationCommandType.ChatInput);
+
+/**
+ * Get the data to send to Discord to register a command
+ */
+export const getCommandData = (command: Command<any, any, any>): RESTPostAPIApplicationCommandsJSONBody => ({
+    name: command.name,
+    name_localizations: command.name_localizations,
+    description: (command as any).description,
+    description_localizations: (command as any).description_localizations,
+    type: command.type,
+    options: getCommandOptions(command),
+    integration_types: command.contexts?.installation,
+    contexts: command.contexts?.interaction,
+    default_member_permissions: consistentPermissions(command.default_member_permissions),
+    nsfw: command.nsfw,
+} as RESTPostAPIApplicationCommandsJSONBody);
+
+/**
+ * Plan the changes required to bring the commands in Discord in line with the commands in the code
+ */
+export const planCommands = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(cmds: Command<Ctx, Req, Sentry>[], discordCommands: APIApplicationCommand[]) => {
+    const plan: RegisterPlan<Ctx, Req, Sentry> = {
+        create: [],
+        patch: [],
+        remove: discordCommands.filter(discord => !cmds.find(command => isSameCommand(discord, command))),
+        unchanged: [],
+    };
+
+    for (const command of cmds) {
+        const discord = discordCommands.find(c => isSameCommand(c, command));
+        if (!discord) {
+            plan.create.push(command);
+            continue;
+        }
 
         const diff = updatedCommandProps({
             name: discord.name,
+            name_localizations: discord.name_localizations,
             description: discord.description,
+            description_localizations: discord.description_localizations,
             type: discord.type,
             options: discord.options,
+            default_member_permissions: discord.default_member_permissions,
+            nsfw: discord.nsfw,
             contexts: {
                 installation: discord.integration_types,
                 interaction: discord.contexts ?? undefined,
             }
-        }, command);
-        if (!Object.keys(diff).length) {
-            commandData.push({ ...command, discord });
-            return arr;
+        }, { ...command, options: getCommandOptions(command) } as CommandMeta);
+        if (Object.keys(diff).length) plan.patch.push({ command, discord, diff });
+        else plan.unchanged.push({ command, discord });
+    }
+
+    return plan;
+};
+
+/**
+ * Group commands by the scope they're registered in, keyed by guild ID or `undefined` for global commands
+ *
+ * The default scope and any additional guilds are always included, so commands removed from them are cleaned up
+ */
+export const getScopes = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(cmds: Command<Ctx, Req, Sentry>[], defaultScope: string | undefined, devGuildId: string | undefined, guilds: string[], warn = false) => {
+    const scopes = new Map<string | undefined, Command<Ctx, Req, Sentry>[]>();
+    for (const guild of [ defaultScope, ...guilds ])
+        scopes.set(guild, []);
+
+    for (const command of cmds) {
+        if (command.guilds === 'dev' && !devGuildId) {
+            if (warn)
+                console.warn(`Expected a development guild to register command ${command.name} in`);
+            continue;
         }
 
-        return [ ...arr, { command, discord, diff } ];
-    }, [] as { command: Command<Ctx, Req, Sentry>; discord: APIApplicationCommand; diff: Partial<RESTPatchAPIApplicationCommandJSONBody> }[]);
-    for (let i = 0; i < toPatch.length; i++) {
-        // Naive avoidance of rate limits
-        if (i >= 5) await new Promise(resolve => setTimeout(resolve, ratelimit));
+        const targets = command.guilds === 'dev' ? [ devGuildId ] : command.guilds ?? [ defaultScope ];
+        for (const guild of new Set(targets))
+            scopes.set(guild, [ ...(scopes.get(guild) || []), command ]);
+    }
+
+    return scopes;
+};
+
+/**
+ * Reconcile the commands in a single scope with Discord, only touching commands within that scope
+ */
+const registerScope = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(clientId: string, token: Token, cmds: Command<Ctx, Req, Sentry>[], guildId: string | undefined, { dryRun = false, strategy = 'individual' }: RegisterOptions): Promise<RegisterScope<Ctx, Req, Sentry>> => {
+    const discordCommands = await getCommands(clientId, token, guildId);
+
+    // Plan the changes to make, and stop if this is a dry run
+    const plan = planCommands(cmds, discordCommands);
+    const scope: RegisterScope<Ctx, Req, Sentry> = { ...(guildId && { guildId }), plan, commands: [] };
+    if (dryRun) return scope;
 
-        // Get the props to patch and do the update
-        const { command, discord, diff } = toPatch[i];
+    // Overwrite all the commands in a single request
+    if (strategy === 'bulk') {
+        const data = await bulkOverwriteCommands(clientId, token, cmds.map(getCommandData), guildId);
+        scope.commands = cmds.reduce((arr, command) => {
+            const discord = data.find(c => isSameCommand(c, command));
+            return discord ? [ ...arr, { ...command, discord } ] : arr;
+        }, [] as RegisterScope<Ctx, Req, Sentry>['commands']);
+        return scope;
+    }
+
+    // Remove any commands that no longer exist in the code
+    for (const command of plan.remove)
+        await removeCommand(clientId, token, command.id, guildId);
+
+    // Track the commands that are unchanged
+    for (const { command, discord } of plan.unchanged)
+        scope.commands.push({ ...command, discord });
+
+    // Patch any commands that already exist in Discord
+    for (const { command, discord, diff } of plan.patch) {
         const data = await updateCommand(clientId, token, discord.id, diff, guildId);
-        commandData.push({ ...command, discord: { ...discord, ...data } });
+        scope.commands.push({ ...command, discord: { ...discord, ...data } });
     }
 
     // Register any commands that're new in the code
-    const toRegister = cmds.filter(cmd => !discordCommands.find(c => c.name === cmd.name && c.type === (cmd.type ?? ApplicationCommandType.ChatInput)));
-    for (let i = 0; i < toRegister.length; i++) {
-        // Naive avoidance of rate limits
-        if (i >= 5) await new Promise(resolve => setTimeout(resolve, ratelimit));
-
-        // Register the new command
-        const command = toRegister[i];
-        const data = await registerCommand(clientId, token, {
-            name: command.name,
-            description: (command as any).description,
-            type: command.type,
-            options: (command as any).options,
-            integration_types: command.contexts?.installation,
-            contexts: command.contexts?.interaction,
-        }, guildId);
-        commandData.push({ ...command, discord: data });
+    for (const command of plan.create) {
+        const data = await registerCommand(clientId, token, getCommandData(command), guildId);
+        scope.commands.push({ ...command, discord: data });
+    }
+
+    return scope;
+};
+
+/**
+ * Find a command as registered in Discord for a guild, either as a guild command or a global command
+ */
+const findRegistered = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(scopes: RegisterScope<Ctx, Req, Sentry>[], command: Command<Ctx, Req, Sentry>, guildId: string) => {
+    for (const scope of [ scopes.find(s => s.guildId === guildId), scopes.find(s => s.guildId === undefined) ]) {
+        if (!scope) continue;
+
+        // Dry runs only have the existing commands in the plan
+        const discord = [
+            ...scope.commands.map(c => c.discord),
+            ...scope.plan.unchanged.map(c => c.discord),
+            ...scope.plan.patch.map(c => c.discord),
+        ].find(c => isSameCommand(c, command));
+        if (discord) return discord;
+    }
+};
+
+/**
+ * Reconcile the permission overrides declared by commands with Discord, after the commands are registered
+ *
+ * Only the commands that declare overrides for a guild are changed, using the IDs of the registered commands
+ */
+const registerPermissions = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(clientId: string, cmds: Command<Ctx, Req, Sentry>[], scopes: RegisterScope<Ctx, Req, Sentry>[], options: RegisterOptions, warn = false) => {
+    const results: RegisterPermissions<Ctx, Req, Sentry>[] = [];
+    const declared = cmds.filter(command => command.guildPermissions && Object.keys(command.guildPermissions).length);
+    if (!declared.length) return results;
+
+    // Permission overrides can only be changed with a user's token
+    if (!options.permissionsToken) {
+        if (warn)
+            console.warn('Expected a permissionsToken to apply command guildPermissions');
+        return results;
     }
+    const token: Token = { token_type: 'Bearer', access_token: options.permissionsToken };
+
+    const guilds = [ ...new Set(declared.flatMap(command => Object.keys(command.guildPermissions!))) ];
+    for (const guildId of guilds) {
+        const existing = await getCommandPermissions(clientId, token, guildId);
+
+        for (const command of declared) {
+            const desired = command.guildPermissions![guildId];
+            if (!desired) continue;
+
+            // Compare the overrides for the registered command, if it exists yet
+            const commandId = findRegistered(scopes, command, guildId)?.id;
+            const current = existing.find(p => p.id === commandId)?.permissions || [];
+            const changed = !commandId || !dequal(consistentCommandPermissions(current), consistentCommandPermissions(desired));
+            results.push({ guildId, command, ...(commandId && { commandId }), current, desired, changed });
+            if (!changed || options.dryRun) continue;
+
+            if (!commandId) {
+                if (warn)
+                    console.warn(`Expected command ${command.name} to be registered globally or in guild ${guildId} to apply its permissions`);
+                continue;
+            }
+
+            await editCommandPermissions(clientId, token, guildId, commandId, { permissions: desired });
+        }
+    }
+
+    return results;
+};
+
+/**
+ * Reconcile commands with Discord, returning the plan of changes for each scope along with the registered commands
+ *
+ * Commands are registered globally (or in the given guild), unless they declare their own `guilds`,
+ * and each scope is reconciled independently, only removing commands within the scopes being managed
+ */
+export const reconcileCommands = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(clientId: string, clientSecret: string, commands: Command<Ctx, Req, Sentry>[], warn = false, guildId?: string, options: RegisterOptions = {}): Promise<RegisterResult<Ctx, Req, Sentry>> => {
+    const { dryRun = false, strategy = 'individual' } = options;
+
+    // Validate the provided commands, and group them by scope
+    const cmds = Object.values(validateCommands<Ctx, Req, Sentry>(commands, warn));
+    const scopes = getScopes(cmds, guildId, options.devGuildId ?? guildId, options.guilds || [], warn);
+
+    // Get a token, and reconcile each scope with Discord
+    const token = await grantToken(clientId, clientSecret);
+    const result: RegisterResult<Ctx, Req, Sentry> = {
+        strategy,
+        dryRun,
+        plan: { create: [], patch: [], remove: [], unchanged: [] },
+        commands: [],
+        scopes: [],
+        permissions: [],
+    };
+    for (const [ scopeId, scopeCmds ] of scopes) {
+        const scope = await registerScope(clientId, token, scopeCmds, scopeId, { dryRun, strategy });
+        result.scopes.push(scope);
+
+        // Combine the plan and commands across scopes
+        result.plan.create.push(...scope.plan.create);
+        result.plan.patch.push(...scope.plan.patch);
+        result.plan.remove.push(...scope.plan.remove);
+        result.plan.unchanged.push(...scope.plan.unchanged);
+        result.commands.push(...scope.commands);
+    }
+
+    // Apply any permission overrides to the registered commands
+    result.permissions = await registerPermissions(clientId, cmds, result.scopes, { ...options, dryRun }, warn);
 
     // Done
-    return commandData;
+    return result;
 };
 
+/**
+ * Register or update commands with Discord, returning the registered commands
+ *
+ * See {@link reconcileCommands} to get the plan of changes, or to only plan them with `dryRun`
+ */
+const registerCommands = async <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(clientId: string, clientSecret: string, commands: Command<Ctx, Req, Sentry>[], warn = false, guildId?: string, options: RegisterOptions = {}) =>
+    (await reconcileCommands(clientId, clientSecret, commands, warn, guildId, options)).commands;
+
 export default registerCommands;
@@ -0,0 +1,148 @@
+import {
+    InteractionResponseType,
+    MessageFlags,
+    type APIApplicationCommandOptionChoice,
+    type APIInteractionResponse,
+    type APIInteractionResponseCallbackData,
+} from 'discord-api-types/payloads';
+
+import type { ModalMeta } from './structure';
+import { responseBody, type WithFiles } from './files';
+
+/**
+ * Response type to launch an application's activity, not yet included in discord-api-types
+ */
+const LaunchActivity = 12 as InteractionResponseType;
+
+export type MessageData = string | WithFiles<APIInteractionResponseCallbackData>;
+
+export interface MessageResponses {
+    /**
+     * Respond with a message
+     */
+    reply: (data: MessageData) => Response;
+    /**
+     * Respond with a message only visible to the user
+     */
+    ephemeral: (data: MessageData) => Response;
+    /**
+     * Acknowledge the interaction, showing a loading state until the message is sent with `edit`
+     */
+    defer: (options?: { ephemeral?: boolean }) => Response;
+    /**
+     * Respond with an upgrade prompt for the application's premium SKU
+     *
+     * @deprecated Discord recommends sending a message with a premium button instead
+     */
+    premiumRequired: () => Response;
+}
+
+export interface UpdateResponses {
+    /**
+     * Respond by updating the message the component is attached to
+     */
+    update: (data: MessageData) => Response;
+    /**
+     * Acknowledge the interaction, updating the message the component is attached to later with `edit`
+     */
+    deferUpdate: () => Response;
+}
+
+export interface CommandResponses extends MessageResponses {
+    /**
+     * Respond by showing a modal with a defined layout
+     */
+    modal: (modal: ModalMeta) => Response;
+    /**
+     * Respond by launching the application's activity
+     */
+    launchActivity: () => Response;
+}
+
+export interface ComponentResponses extends CommandResponses, UpdateResponses {}
+
+export interface ModalResponses extends MessageResponses, UpdateResponses {}
+
+/**
+ * Create a new JSON response, or a multipart response if the message includes files
+ */
+export const jsonResponse = (obj: APIInteractionResponse | { type: InteractionResponseType; data?: WithFiles<APIInteractionResponseCallbackData> }) => {
+    const body = responseBody(obj);
+    return new Response(body, typeof body === 'string' ? {
+        headers: {
+            'Content-Type': 'application/json',
+        },
+    } : undefined);
+};
+
+/**
+ * Normalize message data, allowing a string to be passed as the content
+ */
+export const messageData = (data: MessageData): WithFiles<APIInteractionResponseCallbackData> => typeof data === 'string' ? { content: data } : data;
+
+/**
+ * Create the response data to show a modal with a defined layout
+ */
+const modalData = (modal: ModalMeta): APIInteractionResponse => {
+    if (!modal.title || !modal.components)
+        throw new Error(`Modal ${modal.name} has no title or components to show`);
+
+    return {
+        type: InteractionResponseType.Modal,
+        data: {
+            custom_id: modal.name,
+            title: modal.title,
+            components: modal.components,
+        },
+    };
+};
+
+/**
+ * Create a new JSON response with autocomplete choices
+ *
+ * Discord allows a maximum of 25 choices
+ */
+export const autocompleteResponse = (choices: APIApplicationCommandOptionChoice[]) => jsonResponse({
+    type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+    data: {
+        choices: choices.slice(0, 25),
+    },
+});
+
+/**
+ * Create typed response helpers, sending each response through the given response function
+ */
+export const createResponses = (response: (data: Parameters<typeof jsonResponse>[0]) => Response): ComponentResponses & ModalResponses => ({
+    reply: data => response({
+        type: InteractionResponseType.ChannelMessageWithSource,
+        data: messageData(data),
+    }),
+    ephemeral: data => {
+        const message = messageData(data);
+        return response({
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: {
+                ...message,
+                flags: (message.flags ?? 0) | MessageFlags.Ephemeral,
+            },
+        });
+    },
+    defer: ({ ephemeral = false } = {}) => response({
+        type: InteractionResponseType.DeferredChannelMessageWithSource,
+        ...(ephemeral && { data: { flags: MessageFlags.Ephemeral } }),
+    }),
+    update: data => response({
+        type: InteractionResponseType.UpdateMessage,
+        data: messageData(data),
+    }),
+    deferUpdate: () => response({
+        type: InteractionResponseType.DeferredMessageUpdate,
+    }),
+    modal: modal => response(modalData(modal)),
+    premiumRequired: () => response({
+        type: InteractionResponseType.PremiumRequired,
+    }),
+    launchActivity: () => response({
+        type: LaunchActivity,
+    }),
+});
@@ -0,0 +1,195 @@
+import { RouteBases, type RESTPostOAuth2AccessTokenResult } from 'discord-api-types/rest';
+
+export type Token = Pick<RESTPostOAuth2AccessTokenResult, 'access_token' | 'token_type'>;
+
+export type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RestOptions {
+    /**
+     * Maximum number of times to retry a request that was rate limited
+     */
+    rateLimitRetries?: number;
+    /**
+     * Maximum number of times to retry a request that failed with a transient 5xx status
+     *
+     * Only idempotent methods are retried, as a POST may have been processed before failing, and retrying could send it twice
+     */
+    serverErrorRetries?: number;
+    /**
+     * Base delay in milliseconds for exponential backoff when retrying a 5xx status
+     */
+    backoff?: number;
+}
+
+/**
+ * An error response received from the Discord API
+ */
+export class DiscordAPIError extends Error {
+    readonly status: number;
+    readonly code: number | undefined;
+    readonly body: any;
+    readonly method: Method;
+    readonly endpoint: string;
+
+    constructor(status: number, method: Method, endpoint: string, text: string) {
+        super(`Received unexpected status code ${status} from ${method} ${endpoint} - ${text}`);
+        this.name = 'DiscordAPIError';
+        this.status = status;
+        this.method = method;
+        this.endpoint = endpoint;
+
+        try {
+            this.body = JSON.parse(text);
+        } catch {
+            this.body = text;
+        }
+        this.code = typeof this.body?.code === 'number' ? this.body.code : undefined;
+    }
+}
+
+interface Bucket {
+    remaining: number;
+    reset: number;
+}
+
+const transientStatuses = [ 500, 502, 503, 504 ];
+
+const idempotentMethods: Method[] = [ 'GET', 'PUT', 'PATCH', 'DELETE' ];
+
+/**
+ * Wait for a given number of milliseconds
+ */
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Get the rate limit route key for an endpoint
+ *
+ * Discord buckets are shared across routes with the same major parameters (channel, guild, webhook),
+ * so any other IDs in the endpoint are replaced with a placeholder
+ */
+const getRouteKey = (method: Method, endpoint: string) => `${method} ${endpoint
+    .split('?')[0]
+    .replace(/(?<!\/(?:channels|guilds|webhooks))\/\d{16,20}(?=\/|$)/g, '/:id')}`;
+
+/**
+ * Create a new function to make requests to Discord API endpoints, respecting rate limits
+ *
+ * Each function tracks its own rate limit buckets, based on the `X-RateLimit-*` headers returned by Discord
+ */
+export const createRest = (options: RestOptions = {}) => {
+    const { rateLimitRetries = 5, serverErrorRetries = 3, backoff = 500 } = options;
+
+    const routes = new Map<string, string>();
+    const buckets = new Map<string, Bucket>();
+    let globalReset = 0;
+
+    /**
+     * Forget any buckets that have reset, and the routes that use them, so tracking doesn't grow with every interaction token
+     */
+    const pruneRoutes = () => {
+        const now = Date.now();
+        for (const [ bucketId, bucket ] of buckets)
+            if (bucket.reset <= now) buckets.delete(bucketId);
+        for (const [ route, bucketId ] of routes)
+            if (!buckets.has(bucketId)) routes.delete(route);
+    };
+
+    /**
+     * Wait for any global or bucket rate limit that applies to a route, then count the request against its bucket
+     */
+    const waitForRoute = async (route: string) => {
+        for (;;) {
+            if (globalReset > Date.now())
+                await sleep(globalReset - Date.now());
+
+            const bucketId = routes.get(route);
+            const bucket = bucketId && buckets.get(bucketId);
+            if (!bucket || bucket.reset <= Date.now()) return;
+
+            // Count the request as it is sent, so concurrent requests don't all see the same remaining count
+            if (bucket.remaining > 0) {
+                bucket.remaining--;
+                return;
+            }
+            await sleep(bucket.reset - Date.now());
+        }
+    };
+
+    /**
+     * Track the rate limit bucket information returned for a route
+     */
+    const trackRoute = (route: string, res: Response) => {
+        const bucketId = res.headers.get('X-RateLimit-Bucket');
+        const remaining = res.headers.get('X-RateLimit-Remaining');
+        const resetAfter = res.headers.get('X-RateLimit-Reset-After');
+        if (!bucketId || remaining === null || resetAfter === null) return;
+
+        // Keep any lower count from requests still in flight, unless the bucket has since reset
+        pruneRoutes();
+        const existing = buckets.get(bucketId);
+        routes.set(route, bucketId);
+        buckets.set(bucketId, {
+            remaining: existing ? Math.min(existing.remaining, Number(remaining)) : Number(remaining),
+            reset: Date.now() + Number(resetAfter) * 1000,
+        });
+    };
+
+    /**
+     * Make a request to a Discord API endpoint
+     */
+    const api = async (endpoint: string, method: Method, token?: Token, data?: any, headers: Record<string, string> = {}) => {
+        const dataIsJson = data !== undefined && !(data instanceof URLSearchParams) && !(data instanceof FormData);
+        const route = getRouteKey(method, endpoint);
+
+        for (let rateLimited = 0, serverErrors = 0; ;) {
+            await waitForRoute(route);
+
+            const res = await fetch(
+                `${RouteBases.api}${endpoint}`,
+                {
+                    method,
+                    body: dataIsJson ? JSON.stringify(data) : data,
+                    headers: {
+                        ...(token !== undefined && { Authorization: `${token.token_type} ${token.access_token}` }),
+                        ...(dataIsJson && { 'Content-Type': 'application/json' }),
+                        ...headers,
+                    },
+                },
+            );
+            trackRoute(route, res);
+
+            if (res.ok)
+                return res;
+
+            const text = await res.text();
+
+            // If we were rate limited, wait for the limit to reset and retry
+            if (res.status === 429 && rateLimited < rateLimitRetries) {
+                rateLimited++;
+
+                let body: { retry_after?: number; global?: boolean } = {};
+                try {
+                    body = JSON.parse(text);
+                } catch {}
+
+                const retryAfter = (body.retry_after ?? Number(res.headers.get('Retry-After') ?? 1)) * 1000;
+                if (body.global || res.headers.get('X-RateLimit-Global') === 'true')
+                    globalReset = Date.now() + retryAfter;
+                else
+                    await sleep(retryAfter);
+                continue;
+            }
+
+            // If Discord had a transient error, backoff and retry, unless the request could be processed twice
+            if (transientStatuses.includes(res.status) && idempotentMethods.includes(method) && serverErrors < serverErrorRetries) {
+                await sleep(backoff * 2 ** serverErrors);
+                serverErrors++;
+                continue;
+            }
+
+            throw new DiscordAPIError(res.status, method, endpoint, text);
+        }
+    };
+
+    return api;
+};
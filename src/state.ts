@@ -0,0 +1,196 @@
+export interface SessionStore {
+    /**
+     * Get the value stored for a key, or `undefined` if it doesn't exist or has expired
+     */
+    get: (key: string) => Promise<unknown>;
+    /**
+     * Store a value for a key, expiring after the given number of seconds
+     */
+    set: (key: string, value: unknown, ttl: number) => Promise<void>;
+}
+
+export interface StateOptions {
+    /**
+     * Secret used to sign state into custom_ids, which should be kept private and be at least 32 characters
+     */
+    secret: string;
+    /**
+     * Storage for state too large to fit into a custom_id, defaults to an in-memory store
+     *
+     * The in-memory store is not shared between isolates, so stored state will appear expired when a component is used in another isolate,
+     * use a persistent store like {@link createKVSessionStore} in production
+     */
+    store?: SessionStore;
+    /**
+     * Default number of seconds until state expires, defaults to 15 minutes
+     */
+    ttl?: number;
+    /**
+     * Ephemeral message to reply with when a component's state has expired or been tampered with
+     */
+    expiredMessage?: string;
+}
+
+/**
+ * Create a new {@link SessionStore} that keeps values in memory
+ *
+ * Values only exist within a single isolate, and Workers spread requests across many isolates, so this is not safe to rely on in production
+ */
+export const createMemorySessionStore = (): SessionStore => {
+    const store = new Map<string, { value: unknown; expires: number }>();
+
+    return {
+        get: async key => {
+            const entry = store.get(key);
+            return entry && entry.expires > Date.now() ? entry.value : undefined;
+        },
+        set: async (key, value, ttl) => {
+            const now = Date.now();
+            store.set(key, { value, expires: now + ttl * 1000 });
+
+            // Clean up any keys that have expired
+            for (const [ k, v ] of store)
+                if (v.expires <= now) store.delete(k);
+        },
+    };
+};
+
+/**
+ * Create a new {@link SessionStore} that keeps values in Cloudflare KV
+ *
+ * KV is eventually consistent, so values may briefly be missing in other locations after being stored
+ */
+export const createKVSessionStore = (kv: KVNamespace, prefix = 'session:'): SessionStore => ({
+    get: async key => await kv.get(`${prefix}${key}`, 'json') ?? undefined,
+    // KV requires a TTL of at least 60 seconds
+    set: async (key, value, ttl) => kv.put(`${prefix}${key}`, JSON.stringify(value), { expirationTtl: Math.max(60, Math.ceil(ttl)) }),
+});
+
+/**
+ * Separator between a custom_id and the state token appended to it
+ */
+const separator = '~';
+
+/**
+ * Number of bytes of the HMAC signature kept in a custom_id
+ */
+const signatureBytes = 16;
+
+/**
+ * Encode bytes as base64url, without padding
+ */
+const toBase64Url = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/**
+ * Decode base64url into bytes, throwing if it is invalid
+ */
+const fromBase64Url = (str: string) => Uint8Array.from(
+    atob(str.replace(/-/g, '+').replace(/_/g, '/')),
+    char => char.charCodeAt(0),
+);
+
+/**
+ * Serialize state as JSON, escaping the separator so it can't be confused with the one before the state token
+ */
+const serialize = (state: unknown) => (JSON.stringify(state) ?? '').replace(/~/g, '\\u007e');
+
+/**
+ * Compare two byte arrays in constant time
+ */
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array) => {
+    if (a.length !== b.length) return false;
+
+    let diff = 0;
+    for (let i = 0; i < a.length; i++)
+        diff |= a[i] ^ b[i];
+    return diff === 0;
+};
+
+/**
+ * Split a custom_id into the part matched against components, and any state token appended to it
+ */
+export const splitState = (customId: string) => {
+    const index = customId.lastIndexOf(separator);
+    return index < 0
+        ? { base: customId, token: undefined }
+        : { base: customId.slice(0, index), token: customId.slice(index + separator.length) };
+};
+
+/**
+ * Create helpers to sign state into component custom_ids, and verify and read it back
+ *
+ * Small state is serialized into the custom_id, while larger state is kept in the store under a short random key,
+ * and either way the custom_id is signed so it cannot be forged or moved to another component
+ */
+export const createComponentState = (options: StateOptions) => {
+    const { secret, store = createMemorySessionStore(), ttl: defaultTtl = 15 * 60 } = options;
+    const key = crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [ 'sign' ]);
+
+    /**
+     * Sign a custom_id and its state token, truncating the signature to fit in the custom_id
+     */
+    const sign = async (data: string) => new Uint8Array(await crypto.subtle.sign('HMAC', await key, new TextEncoder().encode(data)))
+        .slice(0, signatureBytes);
+
+    return {
+        /**
+         * Append signed state to a custom_id, storing it if it is too large to fit within the 100 character limit
+         *
+         * State must be JSON serializable, and expires after the given number of seconds
+         */
+        encode: async (customId: string, state: unknown, ttl = defaultTtl) => {
+            const expires = Math.floor(Date.now() / 1000) + ttl;
+            const signatureLength = Math.ceil(signatureBytes * 4 / 3);
+            let token = `s${expires.toString(36)}:${serialize(state)}`;
+
+            // Store the state if it doesn't fit, keeping a short key in the custom_id
+            if (customId.length + separator.length + token.length + 1 + signatureLength > 100) {
+                const id = toBase64Url(crypto.getRandomValues(new Uint8Array(12)));
+                await store.set(id, state, ttl);
+                token = `k${id}`;
+            }
+
+            const signed = `${customId}${separator}${token}`;
+            const result = `${signed}.${toBase64Url(await sign(signed))}`;
+            if (result.length > 100)
+                throw new Error(`Custom ID ${customId} is too long to include state, maximum is ${100 - (result.length - customId.length)} characters`);
+
+            return result;
+        },
+
+        /**
+         * Verify the state appended to a custom_id and read it back, returning `undefined` if it is missing, expired or tampered with
+         */
+        decode: async (customId: string): Promise<{ state: unknown } | undefined> => {
+            const index = customId.lastIndexOf('.');
+            if (index < 0 || !splitState(customId).token) return undefined;
+
+            // Check the signature before trusting any of the custom_id
+            const signed = customId.slice(0, index);
+            try {
+                if (!timingSafeEqual(fromBase64Url(customId.slice(index + 1)), await sign(signed))) return undefined;
+            } catch {
+                return undefined;
+            }
+
+            const { token } = splitState(signed);
+            if (token?.startsWith('k')) {
+                const state = await store.get(token.slice(1));
+                return state === undefined ? undefined : { state };
+            }
+
+            // Inline state is the expiry in base 36, then the state as JSON (empty if undefined)
+            if (token?.startsWith('s')) {
+                const index = token.indexOf(':');
+                if (index < 0 || !(parseInt(token.slice(1, index), 36) > Date.now() / 1000)) return undefined;
+                const json = token.slice(index + 1);
+                return { state: json ? JSON.parse(json) : undefined };
+            }
+        },
+    };
+};
+
+export type ComponentState = ReturnType<typeof createComponentState>;
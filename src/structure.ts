@@ -1,4 +1,5 @@
 import type {
+    RESTGetAPIWebhookWithTokenMessageResult,
     RESTPatchAPIWebhookWithTokenMessageJSONBody,
     RESTPatchAPIWebhookWithTokenMessageResult,
     RESTPostAPIWebhookWithTokenJSONBody,
@@ -8,73 +9,296 @@ import type {
     APIInteraction,
     APIMessageComponentInteraction,
     APIApplicationCommandOption,
+    APIApplicationCommandBasicOption,
     ApplicationIntegrationType,
     InteractionContextType,
     APIChatInputApplicationCommandInteraction,
     APIUserApplicationCommandInteraction,
     APIMessageApplicationCommandInteraction,
-    APIApplicationCommandInteraction
+    APIApplicationCommandInteraction,
+    APIApplicationCommandAutocompleteInteraction,
+    APIApplicationCommandInteractionDataOption,
+    APIApplicationCommandOptionChoice,
+    APIModalSubmitInteraction,
+    APIInteractionResponse,
+    APIActionRowComponent,
+    APITextInputComponent,
+    APIUser,
+    APIGuild,
+    APIEntitlement,
+    APIApplicationCommandPermission,
+    OAuth2Scopes,
 } from 'discord-api-types/payloads';
+import type { LocalizationMap } from 'discord-api-types/v10';
 import {
-    ApplicationCommandType
+    ApplicationCommandType,
+    ApplicationCommandOptionType,
+    ApplicationCommandPermissionType,
 } from 'discord-api-types/payloads';
 import type { Toucan } from 'toucan-js';
 
+import type { Options } from './options';
+import type { CommandResponses, ComponentResponses, MessageResponses, ModalResponses } from './responses';
+import type { WithFiles } from './files';
+import type { Client } from './client';
+import { splitState } from './state';
+
 export interface Context {
     waitUntil: (promise: Promise<any>) => void;
 }
 
-interface Execute<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Interaction extends APIInteraction = APIInteraction> {
+interface Messages {
+    /**
+     * Edit the deferred response, or the message a component is attached to
+     */
+    edit: (data: WithFiles<RESTPatchAPIWebhookWithTokenMessageJSONBody>) => Promise<RESTPatchAPIWebhookWithTokenMessageResult>;
+    /**
+     * Send a follow-up message
+     */
+    more: (data: WithFiles<RESTPostAPIWebhookWithTokenJSONBody>) => Promise<RESTPostAPIWebhookWithTokenWaitResult>;
+    getOriginal: () => Promise<RESTGetAPIWebhookWithTokenMessageResult>;
+    editOriginal: (data: WithFiles<RESTPatchAPIWebhookWithTokenMessageJSONBody>) => Promise<RESTPatchAPIWebhookWithTokenMessageResult>;
+    deleteOriginal: () => Promise<void>;
+    getFollowup: (messageId: string) => Promise<RESTGetAPIWebhookWithTokenMessageResult>;
+    editFollowup: (messageId: string, data: WithFiles<RESTPatchAPIWebhookWithTokenMessageJSONBody>) => Promise<RESTPatchAPIWebhookWithTokenMessageResult>;
+    deleteFollowup: (messageId: string) => Promise<void>;
+}
+
+interface Execute<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Interaction extends APIInteraction = APIInteraction> extends MessageResponses, Messages {
     interaction: Interaction;
-    response: (data: any) => Response;
+    response: (data: APIInteractionResponse) => Response;
     wait: (promise: Promise<any>) => void;
-    edit: (data: RESTPatchAPIWebhookWithTokenMessageJSONBody) => Promise<RESTPatchAPIWebhookWithTokenMessageResult>;
-    more: (data: RESTPostAPIWebhookWithTokenJSONBody) => Promise<RESTPostAPIWebhookWithTokenWaitResult>;
+    /**
+     * REST client authenticated with the bot token, if configured
+     */
+    client?: Client;
+    /**
+     * Active entitlements held by the user or guild
+     */
+    entitlements: APIEntitlement[];
+    /**
+     * Check if the user or guild holds an active entitlement for any of the given SKUs
+     */
+    hasEntitlement: (...skus: string[]) => boolean;
+    /**
+     * Build a custom_id for a component with `state`, signing the state into it, or storing it if too large to fit
+     *
+     * State must be JSON serializable, and expires after `ttl` seconds
+     */
+    createStatefulCustomId: (component: ComponentMeta, state: unknown, options?: { params?: ComponentParams; suffix?: string; ttl?: number }) => Promise<string>;
     request: Req;
     context: Ctx;
     sentry?: Sentry;
 }
 
+export interface MiddlewareContext<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> extends Execute<Ctx, Req, Sentry> {
+    kind: 'command' | 'component' | 'modal';
+    name: string;
+}
+
+/**
+ * Run logic around the execution of a command, component or modal
+ *
+ * Return a response to short-circuit execution, or call `next` (optionally with extra fields to add to the execute context) to continue
+ */
+export type Middleware<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Extra extends object = {}> = (context: MiddlewareContext<Ctx, Req, Sentry>, next: (extra?: Extra) => Promise<Response>) => Promise<Response> | Response;
+
+/**
+ * Limit how often a command or component can be used
+ */
+export interface Cooldown {
+    /**
+     * What the limit applies to, defaults to `user`
+     */
+    scope?: 'user' | 'guild' | 'channel' | 'global';
+    /**
+     * Length of the window, in seconds
+     */
+    window: number;
+    /**
+     * Number of uses allowed within the window, defaults to `1`
+     */
+    count?: number;
+    /**
+     * Ephemeral message to reply with when limited, or a function given the seconds remaining
+     */
+    message?: string | ((remaining: number) => string);
+}
+
+/**
+ * Automatically defer if execution takes longer than a threshold, editing the deferred response with the result
+ *
+ * Pass `true` to use the defaults, a number of milliseconds to set the threshold, or an object for more control
+ */
+export type AutoDefer = boolean | number | {
+    /**
+     * Milliseconds to wait for execution before deferring, defaults to `2000` (Discord requires a response within 3 seconds)
+     */
+    after?: number;
+    /**
+     * Whether to defer with a loading message (`message`), or by acknowledging the component's message (`update`)
+     *
+     * Defaults to `update` for components, and `message` otherwise
+     */
+    type?: 'message' | 'update';
+    /**
+     * Whether the loading message should be ephemeral, as the result cannot change this once deferred
+     */
+    ephemeral?: boolean;
+};
+
 export interface CommandMetaBase {
     name: string;
+    name_localizations?: LocalizationMap | null;
     type?: ApplicationCommandType | undefined;
     contexts?: {
         installation?: ApplicationIntegrationType[],
         interaction?: InteractionContextType[],
     };
+    /**
+     * Permissions bitfield required by default to use the command (e.g. `PermissionFlagsBits.BanMembers`), `0` to restrict to admins
+     */
+    default_member_permissions?: bigint | string | null;
+    nsfw?: boolean;
+    /**
+     * Guild IDs to register the command in instead of globally, or `dev` for the development guild only
+     */
+    guilds?: string[] | 'dev';
+    /**
+     * Permission overrides for roles, users and channels in each guild, keyed by guild ID, applied by `registerCommands`
+     *
+     * The guild ID can be used as a role ID for `@everyone`, and the guild ID minus one as a channel ID for all channels
+     */
+    guildPermissions?: { [guildId: string]: APIApplicationCommandPermission[] };
 }
 
 export interface CommandMetaChatInput extends CommandMetaBase {
     type?: ApplicationCommandType.ChatInput | undefined;
     description: string;
+    description_localizations?: LocalizationMap | null;
     options?: APIApplicationCommandOption[];
 }
 
 export type CommandMeta = CommandMetaBase | CommandMetaChatInput;
 
-interface CommandWithDescription<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> extends CommandMetaChatInput {
-    execute: (context: Execute<Ctx, Req, Sentry, APIChatInputApplicationCommandInteraction> & { commands: Commands<Ctx, Req, Sentry> }) => Promise<Response> | Response;
+/**
+ * The option currently being typed by the user in an autocomplete interaction
+ *
+ * The path includes any subcommand group and subcommand names, followed by the option name
+ */
+export interface FocusedOption {
+    name: string;
+    path: string[];
+    type: ApplicationCommandOptionType;
+    value: string;
+}
+
+export type Autocomplete<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> = (context: Omit<Execute<Ctx, Req, Sentry, APIApplicationCommandAutocompleteInteraction>, 'response' | keyof MessageResponses | keyof Messages> & { focused: FocusedOption; commands: Commands<Ctx, Req, Sentry> }) => Promise<APIApplicationCommandOptionChoice[]> | APIApplicationCommandOptionChoice[];
+
+/**
+ * Autocomplete handlers for a command, keyed by the option path (e.g. `user` or `settings set key`) or just the option name
+ */
+export interface Autocompletes<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    [option: string]: Autocomplete<Ctx, Req, Sentry>;
 }
 
-interface CommandUserContextMenu<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> extends CommandMetaBase {
+interface CommandWithDescription<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Opts extends readonly APIApplicationCommandOption[] = APIApplicationCommandOption[], Extra extends object = {}> extends Omit<CommandMetaChatInput, 'options'> {
+    options?: Opts;
+    execute(context: Execute<Ctx, Req, Sentry, APIChatInputApplicationCommandInteraction> & CommandResponses & { options: Options<Opts>; commands: Commands<Ctx, Req, Sentry> } & Extra): Promise<Response> | Response;
+    autocomplete?: Autocomplete<Ctx, Req, Sentry> | Autocompletes<Ctx, Req, Sentry>;
+    middleware?: Middleware<Ctx, Req, Sentry>[];
+    cooldown?: Cooldown;
+    autoDefer?: AutoDefer;
+    skus?: string[];
+    subcommands?: undefined;
+}
+
+export interface Subcommand<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Opts extends readonly APIApplicationCommandBasicOption[] = APIApplicationCommandBasicOption[], Extra extends object = {}> {
+    name: string;
+    name_localizations?: LocalizationMap | null;
+    description: string;
+    description_localizations?: LocalizationMap | null;
+    options?: Opts;
+    execute(context: Parameters<CommandWithDescription<Ctx, Req, Sentry, Opts, Extra>['execute']>[0]): Promise<Response> | Response;
+    autocomplete?: Autocomplete<Ctx, Req, Sentry> | Autocompletes<Ctx, Req, Sentry>;
+    middleware?: Middleware<Ctx, Req, Sentry>[];
+}
+
+export interface SubcommandGroup<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Extra extends object = {}> {
+    name: string;
+    name_localizations?: LocalizationMap | null;
+    description: string;
+    description_localizations?: LocalizationMap | null;
+    subcommands: Subcommand<Ctx, Req, Sentry, any, Extra>[];
+}
+
+interface CommandWithSubcommands<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Extra extends object = {}> extends Omit<CommandMetaChatInput, 'options'> {
+    subcommands: (Subcommand<Ctx, Req, Sentry, any, Extra> | SubcommandGroup<Ctx, Req, Sentry, Extra>)[];
+    autocomplete?: Autocomplete<Ctx, Req, Sentry> | Autocompletes<Ctx, Req, Sentry>;
+    middleware?: Middleware<Ctx, Req, Sentry>[];
+    cooldown?: Cooldown;
+    autoDefer?: AutoDefer;
+    skus?: string[];
+    options?: undefined;
+    execute?: undefined;
+}
+
+interface CommandUserContextMenu<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Extra extends object = {}> extends CommandMetaBase {
     type: ApplicationCommandType.User;
-    execute: (context: Execute<Ctx, Req, Sentry, APIUserApplicationCommandInteraction> & { commands: Commands<Ctx, Req, Sentry> }) => Promise<Response> | Response;
+    execute(context: Execute<Ctx, Req, Sentry, APIUserApplicationCommandInteraction> & CommandResponses & { commands: Commands<Ctx, Req, Sentry> } & Extra): Promise<Response> | Response;
+    middleware?: Middleware<Ctx, Req, Sentry>[];
+    cooldown?: Cooldown;
+    autoDefer?: AutoDefer;
+    skus?: string[];
 }
 
-interface CommandMessageContextMenu<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> extends CommandMetaBase {
+interface CommandMessageContextMenu<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Extra extends object = {}> extends CommandMetaBase {
     type: ApplicationCommandType.Message;
-    execute: (context: Execute<Ctx, Req, Sentry, APIMessageApplicationCommandInteraction> & { commands: Commands<Ctx, Req, Sentry> }) => Promise<Response> | Response;
+    execute(context: Execute<Ctx, Req, Sentry, APIMessageApplicationCommandInteraction> & CommandResponses & { commands: Commands<Ctx, Req, Sentry> } & Extra): Promise<Response> | Response;
+    middleware?: Middleware<Ctx, Req, Sentry>[];
+    cooldown?: Cooldown;
+    autoDefer?: AutoDefer;
+    skus?: string[];
 }
 
-export type Command<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> = CommandWithDescription<Ctx, Req, Sentry> | CommandUserContextMenu<Ctx, Req, Sentry> | CommandMessageContextMenu<Ctx, Req, Sentry>
+/**
+ * A command, with `Extra` fields added to the execute context by its middleware
+ */
+export type Command<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Opts extends readonly APIApplicationCommandOption[] = any, Extra extends object = {}> = CommandWithDescription<Ctx, Req, Sentry, Opts, Extra> | CommandWithSubcommands<Ctx, Req, Sentry, Extra> | CommandUserContextMenu<Ctx, Req, Sentry, Extra> | CommandMessageContextMenu<Ctx, Req, Sentry, Extra>
 
 export interface Commands<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
     [name: string]: Command<Ctx, Req, Sentry>;
 }
 
-export interface Component<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+export interface ComponentMeta {
+    /**
+     * The custom_id of the component, or a pattern with `{param}` placeholders (e.g. `ban-confirm:{userId}`)
+     */
     name: string;
-    execute: (context: Execute<Ctx, Req, Sentry> & { interaction: APIMessageComponentInteraction }) => Promise<Response> | Response;
+    /**
+     * Match any custom_id that starts with the name, instead of the whole custom_id
+     */
+    prefix?: boolean;
+    /**
+     * Require custom_ids to carry signed state, created with `createStatefulCustomId`, which is verified before execution
+     */
+    state?: boolean;
+    /**
+     * How to respond when a component's state has expired or been tampered with, with an ephemeral message, or by disabling the components on the message, defaults to `message`
+     */
+    expired?: 'message' | 'disable';
+}
+
+export interface ComponentParams {
+    [param: string]: string;
+}
+
+export interface Component<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, State = any, Extra extends object = {}> extends ComponentMeta {
+    execute(context: Execute<Ctx, Req, Sentry> & ComponentResponses & { interaction: APIMessageComponentInteraction; params: ComponentParams; state: State } & Extra): Promise<Response> | Response;
+    middleware?: Middleware<Ctx, Req, Sentry>[];
+    cooldown?: Cooldown;
+    autoDefer?: AutoDefer;
+    skus?: string[];
 }
 
 export interface Components<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
@@ -97,14 +321,58 @@ const isCommand = (value: any, warn = false): value is Command => {
         return false;
     }
 
+    if (!isLocalizationMap(value.name_localizations)) {
+        if (warn)
+            console.warn(`Expected command ${value.name} name_localizations to be an object of strings`);
+        return false;
+    }
+
+    if (value.default_member_permissions !== undefined && value.default_member_permissions !== null
+        && typeof value.default_member_permissions !== 'bigint' && !(typeof value.default_member_permissions === 'string' && /^\d+$/.test(value.default_member_permissions))) {
+        if (warn)
+            console.warn(`Expected command ${value.name} default_member_permissions to be a bigint or numeric string`);
+        return false;
+    }
+
+    if (value.nsfw !== undefined && typeof value.nsfw !== 'boolean') {
+        if (warn)
+            console.warn(`Expected command ${value.name} nsfw to be a boolean`);
+        return false;
+    }
+
     if ((value.type === undefined || value.type === ApplicationCommandType.ChatInput)) {
         if ((typeof value.description !== 'string' || !value.description.length)){
             if (warn)
                 console.warn('Expected ChatInput/PrimaryEntryPoint command to have a description');
             return false;
         }
+
+        if (!isLocalizationMap(value.description_localizations)) {
+            if (warn)
+                console.warn(`Expected command ${value.name} description_localizations to be an object of strings`);
+            return false;
+        }
+
+        if (value.subcommands !== undefined) {
+            if (value.options !== undefined) {
+                if (warn)
+                    console.warn('Expected command with subcommands to have no options');
+                return false;
+            }
+
+            if (value.execute !== undefined) {
+                if (warn)
+                    console.warn('Expected command with subcommands to have no execute function');
+                return false;
+            }
+
+            if (!areSubcommands(value.subcommands, warn, 1))
+                return false;
+        } else if (!areOptions(value.options, warn)) {
+            return false;
+        }
     } else {
-        if (value.description) {
+        if (value.description || value.description_localizations) {
             if (warn)
                 console.warn('Expected ContextMenu command to have no description');
             return false;
@@ -115,22 +383,435 @@ const isCommand = (value: any, warn = false): value is Command => {
                 console.warn("Expected ContextMenu command to have no options");
             return false;
         }
+
+        if (value.subcommands !== undefined) {
+            if (warn)
+                console.warn('Expected ContextMenu command to have no subcommands');
+            return false;
+        }
     }
 
-    if (typeof value.execute !== 'function') {
+    if (value.subcommands === undefined && typeof value.execute !== 'function') {
         if (warn)
             console.warn('Expected command to have an execute function');
         return false;
     }
 
+    if (!isMiddleware(value.middleware)) {
+        if (warn)
+            console.warn(`Expected command ${value.name} middleware to be an array of functions`);
+        return false;
+    }
+
+    if (!isCooldown(value.cooldown)) {
+        if (warn)
+            console.warn(`Expected command ${value.name} cooldown to have a positive window and count`);
+        return false;
+    }
+
+    if (!isAutoDefer(value.autoDefer)) {
+        if (warn)
+            console.warn(`Expected command ${value.name} autoDefer to be a boolean, a threshold in milliseconds, or an object`);
+        return false;
+    }
+
+    if (value.skus !== undefined && (!Array.isArray(value.skus) || !value.skus.every((sku: any) => typeof sku === 'string'))) {
+        if (warn)
+            console.warn(`Expected command ${value.name} skus to be an array of SKU IDs`);
+        return false;
+    }
+
+    if (value.guilds !== undefined && value.guilds !== 'dev' && (!Array.isArray(value.guilds) || !value.guilds.length || !value.guilds.every((guild: any) => typeof guild === 'string' && guild.length))) {
+        if (warn)
+            console.warn(`Expected command ${value.name} guilds to be a non-empty array of guild IDs, or 'dev'`);
+        return false;
+    }
+
+    if (!isGuildPermissions(value.guildPermissions)) {
+        if (warn)
+            console.warn(`Expected command ${value.name} guildPermissions to be an object of up to 100 role, user or channel permissions for each guild`);
+        return false;
+    }
+
+    if (value.autocomplete !== undefined) {
+        if (value.type !== undefined && value.type !== ApplicationCommandType.ChatInput) {
+            if (warn)
+                console.warn('Expected ContextMenu command to have no autocomplete handlers');
+            return false;
+        }
+
+        if (!isAutocomplete(value.autocomplete)) {
+            if (warn)
+                console.warn('Expected command autocomplete to be a function or an object of functions');
+            return false;
+        }
+    }
+
+    return true;
+};
+
+/**
+ * Validate that a given value is an array of {@link Middleware} functions, if set
+ */
+export const isMiddleware = (value: any) =>
+    value === undefined || (Array.isArray(value) && value.every(fn => typeof fn === 'function'));
+
+/**
+ * Validate that a given value is a {@link Cooldown} object, if set
+ */
+const isCooldown = (value: any) =>
+    value === undefined || (typeof value === 'object' && value !== null
+        && [ undefined, 'user', 'guild', 'channel', 'global' ].includes(value.scope)
+        && typeof value.window === 'number' && value.window > 0
+        && (value.count === undefined || (Number.isInteger(value.count) && value.count > 0))
+        && (value.message === undefined || typeof value.message === 'string' || typeof value.message === 'function'));
+
+/**
+ * Validate that a given value is an {@link AutoDefer} configuration, if set
+ */
+const isAutoDefer = (value: any) =>
+    value === undefined || typeof value === 'boolean' || (typeof value === 'number' && value >= 0)
+    || (typeof value === 'object' && value !== null
+        && (value.after === undefined || (typeof value.after === 'number' && value.after >= 0))
+        && [ undefined, 'message', 'update' ].includes(value.type)
+        && (value.ephemeral === undefined || typeof value.ephemeral === 'boolean'));
+
+/**
+ * Validate that a given value is a set of command permission overrides for each guild, if set
+ */
+const isGuildPermissions = (value: any) =>
+    value === undefined
+    || (typeof value === 'object' && value !== null && Object.values(value).every(permissions =>
+        Array.isArray(permissions)
+        && permissions.length <= 100
+        && permissions.every(permission =>
+            typeof permission === 'object'
+            && permission !== null
+            && typeof permission.id === 'string'
+            && [ ApplicationCommandPermissionType.Role, ApplicationCommandPermissionType.User, ApplicationCommandPermissionType.Channel ].includes(permission.type)
+            && typeof permission.permission === 'boolean')));
+
+/**
+ * Validate that a given value is a function or an object of functions for autocomplete
+ */
+const isAutocomplete = (value: any) =>
+    typeof value === 'function' || (typeof value === 'object' && value !== null && Object.values(value).every(handler => typeof handler === 'function'));
+
+/**
+ * Validate that a given value is a map of locales to strings, if set
+ */
+const isLocalizationMap = (value: any) =>
+    value === undefined || value === null || (typeof value === 'object' && Object.values(value).every(str => typeof str === 'string'));
+
+/**
+ * Validate that a given value is a number within a range, if set
+ */
+const isInRange = (value: any, min: number, max: number) =>
+    value === undefined || (typeof value === 'number' && value >= min && value <= max);
+
+/**
+ * Validate that a single command option follows Discord's rules for its constraints
+ */
+const isOption = (value: any, warn = false): boolean => {
+    if (typeof value !== 'object' || value === null) {
+        if (warn)
+            console.warn('Expected command option to be an object');
+        return false;
+    }
+
+    if (!isLocalizationMap(value.name_localizations) || !isLocalizationMap(value.description_localizations)) {
+        if (warn)
+            console.warn(`Expected command option ${value.name} localizations to be an object of strings`);
+        return false;
+    }
+
+    const numeric = value.type === ApplicationCommandOptionType.Integer || value.type === ApplicationCommandOptionType.Number;
+    if (value.min_value !== undefined || value.max_value !== undefined) {
+        if (!numeric || !isInRange(value.min_value, -(2 ** 53), 2 ** 53) || !isInRange(value.max_value, -(2 ** 53), 2 ** 53)
+            || (value.min_value !== undefined && value.max_value !== undefined && value.min_value > value.max_value)) {
+            if (warn)
+                console.warn(`Expected command option ${value.name} min_value/max_value to be a valid range on an Integer/Number option`);
+            return false;
+        }
+    }
+
+    if (value.min_length !== undefined || value.max_length !== undefined) {
+        if (value.type !== ApplicationCommandOptionType.String || !isInRange(value.min_length, 0, 6000) || !isInRange(value.max_length, 1, 6000)
+            || (value.min_length !== undefined && value.max_length !== undefined && value.min_length > value.max_length)) {
+            if (warn)
+                console.warn(`Expected command option ${value.name} min_length/max_length to be a valid range on a String option`);
+            return false;
+        }
+    }
+
+    if (value.channel_types !== undefined && (value.type !== ApplicationCommandOptionType.Channel || !Array.isArray(value.channel_types))) {
+        if (warn)
+            console.warn(`Expected command option ${value.name} channel_types to be an array on a Channel option`);
+        return false;
+    }
+
+    if (value.autocomplete) {
+        if (!numeric && value.type !== ApplicationCommandOptionType.String) {
+            if (warn)
+                console.warn(`Expected command option ${value.name} with autocomplete to be a String/Integer/Number option`);
+            return false;
+        }
+
+        if (value.choices?.length) {
+            if (warn)
+                console.warn(`Expected command option ${value.name} with autocomplete to have no choices`);
+            return false;
+        }
+    }
+
+    if (value.choices !== undefined && (!Array.isArray(value.choices) || value.choices.length > 25)) {
+        if (warn)
+            console.warn(`Expected command option ${value.name} choices to be an array of at most 25 choices`);
+        return false;
+    }
+
+    if (value.type === ApplicationCommandOptionType.Subcommand || value.type === ApplicationCommandOptionType.SubcommandGroup)
+        return areOptions(value.options, warn);
+
+    return true;
+};
+
+/**
+ * Validate that a set of command options follows Discord's rules
+ *
+ * Discord allows a maximum of 25 options, and subcommands cannot be mixed with other options
+ */
+const areOptions = (value: any, warn = false): boolean => {
+    if (value === undefined)
+        return true;
+
+    if (!Array.isArray(value) || value.length > 25) {
+        if (warn)
+            console.warn('Expected command options to be an array of at most 25 options');
+        return false;
+    }
+
+    const subcommands = value.filter(option => option?.type === ApplicationCommandOptionType.Subcommand || option?.type === ApplicationCommandOptionType.SubcommandGroup);
+    if (subcommands.length && subcommands.length !== value.length) {
+        if (warn)
+            console.warn('Expected command options to not mix subcommands with other options');
+        return false;
+    }
+
+    return value.every(option => isOption(option, warn));
+};
+
+/**
+ * Validate that a set of values are {@link Subcommand} or {@link SubcommandGroup} objects
+ *
+ * Discord allows subcommand groups at the top level only, and a maximum of 25 children at each level
+ */
+const areSubcommands = (value: any, warn = false, depth = 1): boolean => {
+    if (!Array.isArray(value) || !value.length || value.length > 25) {
+        if (warn)
+            console.warn('Expected subcommands to be an array of between 1 and 25 subcommands');
+        return false;
+    }
+
+    const names = new Set<string>();
+    for (const subcommand of value) {
+        if (typeof subcommand !== 'object' || subcommand === null) {
+            if (warn)
+                console.warn('Expected subcommand to be an object');
+            return false;
+        }
+
+        if (typeof subcommand.name !== 'string' || !subcommand.name.length) {
+            if (warn)
+                console.warn('Expected subcommand to have a name');
+            return false;
+        }
+
+        if (names.has(subcommand.name)) {
+            if (warn)
+                console.warn(`Subcommand ${subcommand.name} already exists`);
+            return false;
+        }
+        names.add(subcommand.name);
+
+        if (typeof subcommand.description !== 'string' || !subcommand.description.length) {
+            if (warn)
+                console.warn(`Expected subcommand ${subcommand.name} to have a description`);
+            return false;
+        }
+
+        if (!isLocalizationMap(subcommand.name_localizations) || !isLocalizationMap(subcommand.description_localizations)) {
+            if (warn)
+                console.warn(`Expected subcommand ${subcommand.name} localizations to be an object of strings`);
+            return false;
+        }
+
+        // Subcommand groups contain subcommands, and cannot be nested further
+        if (subcommand.subcommands !== undefined) {
+            if (depth > 1) {
+                if (warn)
+                    console.warn(`Expected subcommand group ${subcommand.name} to not be nested in another group`);
+                return false;
+            }
+
+            if (subcommand.execute !== undefined || subcommand.options !== undefined) {
+                if (warn)
+                    console.warn(`Expected subcommand group ${subcommand.name} to have no execute function or options`);
+                return false;
+            }
+
+            if (!areSubcommands(subcommand.subcommands, warn, depth + 1))
+                return false;
+            continue;
+        }
+
+        if (!areOptions(subcommand.options, warn))
+            return false;
+
+        if (subcommand.options?.some((option: any) => option?.type === ApplicationCommandOptionType.Subcommand || option?.type === ApplicationCommandOptionType.SubcommandGroup)) {
+            if (warn)
+                console.warn(`Expected subcommand ${subcommand.name} to have no nested subcommand options`);
+            return false;
+        }
+
+        if (typeof subcommand.execute !== 'function') {
+            if (warn)
+                console.warn(`Expected subcommand ${subcommand.name} to have an execute function`);
+            return false;
+        }
+
+        if (!isMiddleware(subcommand.middleware)) {
+            if (warn)
+                console.warn(`Expected subcommand ${subcommand.name} middleware to be an array of functions`);
+            return false;
+        }
+
+        if (subcommand.autocomplete !== undefined && !isAutocomplete(subcommand.autocomplete)) {
+            if (warn)
+                console.warn(`Expected subcommand ${subcommand.name} autocomplete to be a function or an object of functions`);
+            return false;
+        }
+    }
+
     return true;
 };
 
+/**
+ * Get the Discord options for a command, including any {@link Subcommand} or {@link SubcommandGroup} objects
+ */
+export const getCommandOptions = (cmd: Command<any, any, any>): APIApplicationCommandOption[] | undefined => {
+    if ('subcommands' in cmd && cmd.subcommands)
+        return cmd.subcommands.map(subcommand => 'subcommands' in subcommand
+            ? {
+                type: ApplicationCommandOptionType.SubcommandGroup,
+                name: subcommand.name,
+                name_localizations: subcommand.name_localizations,
+                description: subcommand.description,
+                description_localizations: subcommand.description_localizations,
+                options: subcommand.subcommands.map(sub => ({
+                    type: ApplicationCommandOptionType.Subcommand,
+                    name: sub.name,
+                    name_localizations: sub.name_localizations,
+                    description: sub.description,
+                    description_localizations: sub.description_localizations,
+                    options: sub.options,
+                })),
+            }
+            : {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: subcommand.name,
+                name_localizations: subcommand.name_localizations,
+                description: subcommand.description,
+                description_localizations: subcommand.description_localizations,
+                options: subcommand.options,
+            });
+
+    return 'options' in cmd ? cmd.options : undefined;
+};
+
+/**
+ * Get the path of subcommand group and subcommand names used in a set of interaction options
+ */
+export const getSubcommandPath = (options: APIApplicationCommandInteractionDataOption[] | undefined): string[] => {
+    const option = options?.[0];
+    if (option?.type === ApplicationCommandOptionType.SubcommandGroup)
+        return [ option.name, ...getSubcommandPath(option.options) ];
+    if (option?.type === ApplicationCommandOptionType.Subcommand)
+        return [ option.name ];
+    return [];
+};
+
+/**
+ * Get the {@link Subcommand} object for a path of subcommand group and subcommand names, if one exists
+ */
+export const getSubcommand = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(cmd: Command<Ctx, Req, Sentry>, path: string[]): Subcommand<Ctx, Req, Sentry> | undefined => {
+    if (!('subcommands' in cmd) || !cmd.subcommands || !path.length) return undefined;
+
+    const child = cmd.subcommands.find(subcommand => subcommand.name === path[0]);
+    if (!child) return undefined;
+
+    if ('subcommands' in child)
+        return path.length === 2 ? child.subcommands.find(subcommand => subcommand.name === path[1]) : undefined;
+    return path.length === 1 ? child : undefined;
+};
+
+/**
+ * Resolve an autocomplete handler for an option path from a function or an object of functions
+ */
+const resolveAutocomplete = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(autocomplete: Autocomplete<Ctx, Req, Sentry> | Autocompletes<Ctx, Req, Sentry> | undefined, path: string[]) => {
+    if (!autocomplete) return undefined;
+    if (typeof autocomplete === 'function') return autocomplete;
+    return autocomplete[path.join(' ')] || autocomplete[path[path.length - 1]];
+};
+
+/**
+ * Get the autocomplete handler for an option path within a command, if one exists
+ *
+ * A handler on the {@link Subcommand} is preferred over one on the command,
+ * and a single function handles all options, otherwise the full option path is preferred over just the option name
+ */
+export const getAutocomplete = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(cmd: Command<Ctx, Req, Sentry>, path: string[]) => {
+    const subcommand = getSubcommand(cmd, path.slice(0, -1));
+    return resolveAutocomplete(subcommand?.autocomplete, path.slice(-1))
+        || resolveAutocomplete('autocomplete' in cmd ? cmd.autocomplete : undefined, path);
+};
+
+/**
+ * Get the paths of all options within a set of command options that have autocomplete enabled
+ */
+const getAutocompletePaths = (options: APIApplicationCommandOption[] | undefined, parent: string[] = []): string[][] =>
+    (options || []).flatMap(option => {
+        if (option.type === ApplicationCommandOptionType.Subcommand || option.type === ApplicationCommandOptionType.SubcommandGroup)
+            return getAutocompletePaths(option.options, [ ...parent, option.name ]);
+        return 'autocomplete' in option && option.autocomplete ? [ [ ...parent, option.name ] ] : [];
+    });
+
+/**
+ * Find the focused option within a set of interaction options, including any nested in subcommands
+ */
+export const getFocusedOption = (options: APIApplicationCommandInteractionDataOption[] | undefined, parent: string[] = []): FocusedOption | undefined => {
+    for (const option of options || []) {
+        if (option.type === ApplicationCommandOptionType.Subcommand || option.type === ApplicationCommandOptionType.SubcommandGroup) {
+            const focused = getFocusedOption(option.options, [ ...parent, option.name ]);
+            if (focused) return focused;
+            continue;
+        }
+
+        if ('focused' in option && option.focused)
+            return {
+                name: option.name,
+                path: [ ...parent, option.name ],
+                type: option.type,
+                value: String(option.value),
+            };
+    }
+};
+
 /**
  * Commands can share the same name if they don't share the same type, see https://discord.com/developers/docs/interactions/application-commands#registering-a-command
  */
 export const getCommandName = (cmd: Command) => `${cmd.name} (type: ${cmd.type ?? ApplicationCommandType.ChatInput})`
-export const getInteractionName = (int: APIApplicationCommandInteraction) => `${int.data.name} (type: ${int.data.type})`
+export const getInteractionName = (int: APIApplicationCommandInteraction | APIApplicationCommandAutocompleteInteraction) => `${int.data.name} (type: ${int.data.type})`
 
 /**
  * Validate that a set of values are {@link Command} objects
@@ -148,6 +829,12 @@ export const validateCommands = <Ctx extends Context = Context, Req extends Requ
             return acc;
         }
 
+        // Check any options with autocomplete enabled have a handler
+        if (warn)
+            for (const path of getAutocompletePaths(getCommandOptions(cmd)))
+                if (!getAutocomplete(cmd, path))
+                    console.warn(`Command ${name} option ${path.join(' ')} has autocomplete enabled but no autocomplete handler`);
+
         // Add the command
         return {
             ...acc,
@@ -155,6 +842,39 @@ export const validateCommands = <Ctx extends Context = Context, Req extends Requ
         };
     }, {}) as Commands<Ctx, Req, Sentry>;
 
+const componentParam = /\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+
+/**
+ * Get the names of the parameters in a component name pattern
+ */
+const getComponentParams = (name: string) => [ ...name.matchAll(componentParam) ].map(match => match[1]);
+
+/**
+ * Get the regular expression to match a custom_id against a component name pattern
+ */
+const getComponentRegExp = (cmp: ComponentMeta) => new RegExp(`^${cmp.name
+    .split(componentParam)
+    .map((part, i) => i % 2 ? '(.+?)' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('')}${cmp.prefix ? '' : '$'}`);
+
+/**
+ * Match a custom_id against a {@link Component}, returning the parsed parameters if it matches
+ */
+const matchComponent = (cmp: ComponentMeta, customId: string) => {
+    const match = getComponentRegExp(cmp).exec(customId);
+    if (!match) return undefined;
+
+    return getComponentParams(cmp.name).reduce((acc, param, i) => ({
+        ...acc,
+        [param]: match[i + 1],
+    }), {}) as ComponentParams;
+};
+
+/**
+ * Build a sample custom_id for a {@link Component}, used to detect overlapping patterns
+ */
+const sampleCustomId = (cmp: ComponentMeta) => cmp.name.replace(componentParam, '_');
+
 /**
  * Validate that a given value is a {@link Component} object
  */
@@ -171,12 +891,80 @@ const isComponent = (value: any, warn = false): value is Component => {
         return false;
     }
 
+    if (value.prefix !== undefined && typeof value.prefix !== 'boolean') {
+        if (warn)
+            console.warn('Expected component prefix to be a boolean');
+        return false;
+    }
+
+    if (value.state !== undefined && typeof value.state !== 'boolean') {
+        if (warn)
+            console.warn('Expected component state to be a boolean');
+        return false;
+    }
+
+    if (value.expired !== undefined && ![ 'message', 'disable' ].includes(value.expired)) {
+        if (warn)
+            console.warn(`Expected component ${value.name} expired to be message or disable`);
+        return false;
+    }
+
+    const params = getComponentParams(value.name);
+    if (new Set(params).size !== params.length) {
+        if (warn)
+            console.warn(`Expected component ${value.name} to have unique parameter names`);
+        return false;
+    }
+
+    if (/\}\{/.test(value.name) || (value.prefix && /\}$/.test(value.name))) {
+        if (warn)
+            console.warn(`Expected component ${value.name} to have a separator after each parameter`);
+        return false;
+    }
+
+    if (sampleCustomId(value).length > 100) {
+        if (warn)
+            console.warn(`Expected component ${value.name} to be at most 100 characters`);
+        return false;
+    }
+
+    // Leave room for a stored state key and signature
+    if (value.state && sampleCustomId(value).length > 59) {
+        if (warn)
+            console.warn(`Expected component ${value.name} with state to be at most 59 characters`);
+        return false;
+    }
+
     if (typeof value.execute !== 'function') {
         if (warn)
             console.warn('Expected component to have an execute function');
         return false;
     }
 
+    if (!isMiddleware(value.middleware)) {
+        if (warn)
+            console.warn(`Expected component ${value.name} middleware to be an array of functions`);
+        return false;
+    }
+
+    if (!isCooldown(value.cooldown)) {
+        if (warn)
+            console.warn(`Expected component ${value.name} cooldown to have a positive window and count`);
+        return false;
+    }
+
+    if (!isAutoDefer(value.autoDefer)) {
+        if (warn)
+            console.warn(`Expected component ${value.name} autoDefer to be a boolean, a threshold in milliseconds, or an object`);
+        return false;
+    }
+
+    if (value.skus !== undefined && (!Array.isArray(value.skus) || !value.skus.every((sku: any) => typeof sku === 'string'))) {
+        if (warn)
+            console.warn(`Expected component ${value.name} skus to be an array of SKU IDs`);
+        return false;
+    }
+
     return true;
 };
 
@@ -194,9 +982,229 @@ export const validateComponents = <Ctx extends Context = Context, Req extends Re
             return acc;
         }
 
+        // Check the component doesn't overlap with an existing pattern
+        const overlap = Object.values(acc as Components).find(existing =>
+            matchComponent(existing, sampleCustomId(cmp)) || matchComponent(cmp, sampleCustomId(existing)));
+        if (overlap) {
+            if (warn)
+                console.warn(`Component ${cmp.name} is ambiguous with existing component ${overlap.name}`);
+            return acc;
+        }
+
         // Add the component
         return {
             ...acc,
             [cmp.name]: cmp,
         };
     }, {}) as Components<Ctx, Req, Sentry>;
+
+/**
+ * Find the {@link Component} that handles a custom_id, along with the parameters parsed from it
+ */
+export const getComponent = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(cmps: Components<Ctx, Req, Sentry>, customId: string) => {
+    // Prefer an exact match, before checking patterns
+    const exact = cmps[customId];
+    if (exact && !exact.state && !getComponentParams(exact.name).length)
+        return { component: exact, params: {} as ComponentParams };
+
+    // Components with state are matched without the state appended to the custom_id
+    const { base } = splitState(customId);
+    for (const component of Object.values(cmps)) {
+        const params = matchComponent(component, component.state ? base : customId);
+        if (params) return { component, params };
+    }
+};
+
+/**
+ * Build a custom_id for a {@link Component}, filling in any parameters in its name pattern
+ */
+export const createCustomId = (cmp: ComponentMeta, params: ComponentParams = {}, suffix = '') => {
+    const customId = cmp.name.replace(componentParam, (_, param: string) => {
+        if (typeof params[param] !== 'string' || !params[param].length)
+            throw new Error(`Missing parameter ${param} for component ${cmp.name}`);
+        return params[param];
+    }) + (cmp.prefix ? suffix : '');
+
+    if (customId.length > 100)
+        throw new Error(`Custom ID for component ${cmp.name} is ${customId.length} characters, maximum is 100`);
+
+    // Ensure the parameters can be parsed back out of the custom_id
+    const parsed = matchComponent(cmp, customId);
+    if (!parsed || Object.entries(parsed).some(([ param, value ]) => params[param] !== value))
+        throw new Error(`Parameters for component ${cmp.name} cannot be parsed from custom ID ${customId}`);
+
+    return customId;
+};
+
+export interface ModalMeta {
+    name: string;
+    title?: string;
+    components?: APIActionRowComponent<APITextInputComponent>[];
+}
+
+export interface Modal<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Extra extends object = {}> extends ModalMeta {
+    execute(context: Execute<Ctx, Req, Sentry, APIModalSubmitInteraction> & ModalResponses & { values: { [name: string]: string } } & Extra): Promise<Response> | Response;
+    middleware?: Middleware<Ctx, Req, Sentry>[];
+}
+
+export interface Modals<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    [name: string]: Modal<Ctx, Req, Sentry>;
+}
+
+/**
+ * Validate that a given value is a {@link Modal} object
+ */
+const isModal = (value: any, warn = false): value is Modal => {
+    if (typeof value !== 'object' || value === null) {
+        if (warn)
+            console.warn('Expected modal to be an object');
+        return false;
+    }
+
+    if (typeof value.name !== 'string' || !value.name.length) {
+        if (warn)
+            console.warn('Expected modal to have a name');
+        return false;
+    }
+
+    if (value.title !== undefined || value.components !== undefined) {
+        if (typeof value.title !== 'string' || !value.title.length) {
+            if (warn)
+                console.warn('Expected modal with components to have a title');
+            return false;
+        }
+
+        if (!Array.isArray(value.components) || value.components.length < 1 || value.components.length > 5) {
+            if (warn)
+                console.warn('Expected modal with a title to have between 1 and 5 components');
+            return false;
+        }
+    }
+
+    if (typeof value.execute !== 'function') {
+        if (warn)
+            console.warn('Expected modal to have an execute function');
+        return false;
+    }
+
+    if (!isMiddleware(value.middleware)) {
+        if (warn)
+            console.warn(`Expected modal ${value.name} middleware to be an array of functions`);
+        return false;
+    }
+
+    return true;
+};
+
+/**
+ * Validate that a set of values are {@link Modal} objects
+ */
+export const validateModals = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(mdls: any[], warn = false) =>
+    mdls.reduce((acc, mdl) => {
+        if (!isModal(mdl, warn)) return acc;
+
+        // Check the modal doesn't already exist
+        if (acc[mdl.name]) {
+            if (warn)
+                console.warn(`Modal ${mdl.name} already exists`);
+            return acc;
+        }
+
+        // Add the modal
+        return {
+            ...acc,
+            [mdl.name]: mdl,
+        };
+    }, {}) as Modals<Ctx, Req, Sentry>;
+
+/**
+ * Flatten the text input values submitted in a modal into a map of custom_id to value
+ */
+export const getModalValues = (interaction: APIModalSubmitInteraction) =>
+    interaction.data.components.reduce((acc, row) => ({
+        ...acc,
+        ...row.components.reduce((obj, cmp) => ({ ...obj, [cmp.custom_id]: cmp.value }), {}),
+    }), {}) as { [name: string]: string };
+
+/**
+ * Data for each type of webhook event sent by Discord
+ */
+export interface EventData {
+    APPLICATION_AUTHORIZED: {
+        integration_type?: ApplicationIntegrationType;
+        user: APIUser;
+        scopes: OAuth2Scopes[];
+        guild?: APIGuild;
+    };
+    APPLICATION_DEAUTHORIZED: {
+        user: APIUser;
+    };
+    ENTITLEMENT_CREATE: APIEntitlement;
+    QUEST_USER_ENROLLMENT: unknown;
+}
+
+export type EventType = keyof EventData;
+
+export interface Event<Type extends EventType = EventType> {
+    type: Type;
+    timestamp: string;
+    data: EventData[Type];
+}
+
+/**
+ * Body of a webhook event request, either a ping (`type: 0`) or an event (`type: 1`)
+ */
+export interface EventBody {
+    version: 1;
+    application_id: string;
+    type: 0 | 1;
+    event?: Event;
+}
+
+export interface EventListener<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined, Type extends EventType = EventType> {
+    type: Type;
+    execute: (context: Pick<Execute<Ctx, Req, Sentry>, 'wait' | 'request' | 'context' | 'client' | 'sentry'> & { event: Event<Type> }) => Promise<void> | void;
+}
+
+export interface EventListeners<Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined> {
+    [type: string]: EventListener<Ctx, Req, Sentry, any>[];
+}
+
+/**
+ * Validate that a given value is an {@link EventListener} object
+ */
+const isEventListener = (value: any, warn = false): value is EventListener => {
+    if (typeof value !== 'object' || value === null) {
+        if (warn)
+            console.warn('Expected event listener to be an object');
+        return false;
+    }
+
+    if (typeof value.type !== 'string' || !value.type.length) {
+        if (warn)
+            console.warn('Expected event listener to have a type');
+        return false;
+    }
+
+    if (typeof value.execute !== 'function') {
+        if (warn)
+            console.warn(`Expected event listener ${value.type} to have an execute function`);
+        return false;
+    }
+
+    return true;
+};
+
+/**
+ * Validate that a set of values are {@link EventListener} objects, grouping them by event type
+ */
+export const validateEventListeners = <Ctx extends Context = Context, Req extends Request = Request, Sentry extends Toucan | undefined = undefined>(listeners: any[], warn = false) =>
+    listeners.reduce((acc, listener) => {
+        if (!isEventListener(listener, warn)) return acc;
+
+        // Add the listener, after any others for the same type
+        return {
+            ...acc,
+            [listener.type]: [ ...acc[listener.type] || [], listener ],
+        };
+    }, {}) as EventListeners<Ctx, Req, Sentry>;
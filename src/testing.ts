@@ -0,0 +1,775 @@
+import {
+    ApplicationCommandOptionType,
+    ApplicationCommandType,
+    ChannelType,
+    ComponentType,
+    InteractionContextType,
+    InteractionResponseType,
+    InteractionType,
+    MessageFlags,
+    type APIApplicationCommand,
+    type APIGuildApplicationCommandPermissions,
+    type APIEntitlement,
+    type APIApplicationCommandAutocompleteInteraction,
+    type APIApplicationCommandInteractionDataOption,
+    type APIApplicationCommandOption,
+    type APIChatInputApplicationCommandInteraction,
+    type APIInteraction,
+    type APIInteractionDataResolved,
+    type APIMessage,
+    type APIMessageApplicationCommandInteraction,
+    type APIMessageComponentInteraction,
+    type APIModalSubmitInteraction,
+    type APIUser,
+    type APIUserApplicationCommandInteraction,
+} from 'discord-api-types/payloads';
+import { RouteBases } from 'discord-api-types/rest';
+
+import { createCustomId, getCommandOptions, type Command, type ComponentMeta, type ComponentParams, type Context, type EventBody, type EventData, type EventType, type ModalMeta } from './structure';
+
+/**
+ * Generate a snowflake-like ID, unique within the current process
+ */
+let sequence = 0;
+const snowflake = () => ((BigInt(Date.now() - 1420070400000) << 22n) | BigInt(sequence++ % 4096)).toString();
+
+/**
+ * Convert a buffer to a hex string
+ */
+const toHex = (buffer: ArrayBuffer) => [ ...new Uint8Array(buffer) ].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export interface KeyPair {
+    publicKey: string;
+    algorithm: string;
+    sign: (body: string, timestamp?: string) => Promise<{ signature: string; timestamp: string }>;
+}
+
+/**
+ * Generate a new Ed25519 key pair to sign fake interactions with
+ *
+ * Pass the public key and algorithm to `createHandler` so that signed interactions are accepted
+ */
+export const createKeyPair = async (algorithm = 'Ed25519'): Promise<KeyPair> => {
+    const keys = await crypto.subtle.generateKey({ name: algorithm, namedCurve: algorithm } as any, true, [ 'sign', 'verify' ]) as CryptoKeyPair;
+    const publicKey = toHex(await crypto.subtle.exportKey('raw', keys.publicKey) as ArrayBuffer);
+
+    return {
+        publicKey,
+        algorithm,
+        sign: async (body, timestamp = Math.floor(Date.now() / 1000).toString()) => ({
+            signature: toHex(await crypto.subtle.sign(algorithm, keys.privateKey, new TextEncoder().encode(timestamp + body))),
+            timestamp,
+        }),
+    };
+};
+
+export interface InteractionBase {
+    applicationId?: string;
+    user?: APIUser;
+    guildId?: string | null;
+    channelId?: string;
+    permissions?: bigint | string;
+    locale?: string;
+    entitlements?: APIEntitlement[];
+}
+
+const defaultUser: APIUser = {
+    id: '100000000000000001',
+    username: 'test-user',
+    discriminator: '0',
+    global_name: 'Test User',
+    avatar: null,
+};
+
+/**
+ * Build the fields shared by all interactions
+ *
+ * Interactions are in a guild by default, pass `guildId: null` for a DM
+ */
+const baseInteraction = (base: InteractionBase = {}) => {
+    const user = base.user ?? defaultUser;
+    const guildId = base.guildId === undefined ? '200000000000000001' : base.guildId;
+    const channelId = base.channelId ?? '300000000000000001';
+
+    return {
+        id: snowflake(),
+        application_id: base.applicationId ?? '400000000000000001',
+        token: `test-token-${snowflake()}`,
+        version: 1 as const,
+        app_permissions: '0',
+        locale: (base.locale ?? 'en-US') as any,
+        entitlements: base.entitlements ?? [],
+        authorizing_integration_owners: guildId ? { 0: guildId } : { 1: user.id },
+        channel_id: channelId,
+        channel: guildId
+            ? { id: channelId, type: ChannelType.GuildText }
+            : { id: channelId, type: ChannelType.DM },
+        context: guildId ? InteractionContextType.Guild : InteractionContextType.BotDM,
+        ...(guildId
+            ? {
+                guild_id: guildId,
+                guild_locale: 'en-US' as any,
+                member: {
+                    user,
+                    roles: [],
+                    permissions: (base.permissions ?? '0').toString(),
+                    joined_at: new Date(0).toISOString(),
+                    deaf: false,
+                    mute: false,
+                    flags: 0,
+                },
+            }
+            : { user }),
+    };
+};
+
+/**
+ * Build a message, as sent by the application, for component interactions
+ */
+const baseMessage = (applicationId: string, channelId: string, message: Partial<APIMessage> = {}) => ({
+    id: snowflake(),
+    channel_id: channelId,
+    author: { id: applicationId, username: 'test-app', discriminator: '0000', global_name: null, avatar: null, bot: true },
+    content: '',
+    timestamp: new Date().toISOString(),
+    edited_timestamp: null,
+    tts: false,
+    mention_everyone: false,
+    mentions: [],
+    mention_roles: [],
+    attachments: [],
+    embeds: [],
+    pinned: false,
+    type: 0,
+    ...message,
+}) as APIMessage;
+
+export interface CommandInteractionOptions extends InteractionBase {
+    /**
+     * Subcommand path, e.g. `settings set` for a subcommand in a group
+     */
+    subcommand?: string;
+    /**
+     * Option values, keyed by name
+     *
+     * Users, roles, channels and attachments can be passed as objects with an `id`, and are added to the resolved data
+     */
+    options?: { [name: string]: string | number | boolean | { id: string; [key: string]: any } };
+    resolved?: APIInteractionDataResolved;
+}
+
+/**
+ * Build the data options and resolved data for a command, from a set of option values
+ */
+const buildOptions = (declared: APIApplicationCommandOption[] | undefined, opts: CommandInteractionOptions, focused?: string) => {
+    const resolved: APIInteractionDataResolved = { ...opts.resolved };
+    const path = opts.subcommand?.split(' ').filter(Boolean) || [];
+
+    // Find the declared options for the subcommand
+    let leaf = declared;
+    const parents: APIApplicationCommandOption[] = [];
+    for (const name of path) {
+        const parent = leaf?.find(option => option.name === name);
+        if (!parent) throw new Error(`Unknown subcommand ${name}`);
+        parents.push(parent);
+        leaf = 'options' in parent ? parent.options as APIApplicationCommandOption[] : [];
+    }
+
+    let options = Object.entries(opts.options || {}).map(([ name, value ]) => {
+        const option = leaf?.find(opt => opt.name === name);
+        const type = option?.type
+            ?? (typeof value === 'boolean' ? ApplicationCommandOptionType.Boolean
+                : typeof value === 'number' ? (Number.isInteger(value) ? ApplicationCommandOptionType.Integer : ApplicationCommandOptionType.Number)
+                    : ApplicationCommandOptionType.String);
+
+        // Add any objects to the resolved data
+        if (typeof value === 'object') {
+            const key = ({
+                [ApplicationCommandOptionType.User]: 'users',
+                [ApplicationCommandOptionType.Role]: 'roles',
+                [ApplicationCommandOptionType.Channel]: 'channels',
+                [ApplicationCommandOptionType.Attachment]: 'attachments',
+                [ApplicationCommandOptionType.Mentionable]: 'username' in value ? 'users' : 'roles',
+            } as { [type: number]: keyof APIInteractionDataResolved })[type];
+            if (!key) throw new Error(`Option ${name} cannot be passed as an object`);
+            resolved[key] = { ...resolved[key], [value.id]: value } as any;
+        }
+
+        return {
+            name,
+            type,
+            value: typeof value === 'object' ? value.id : value,
+            ...(name === focused && { focused: true, value: String(value) }),
+        };
+    }) as APIApplicationCommandInteractionDataOption[];
+
+    // Wrap the options in the subcommand path
+    for (const parent of parents.reverse())
+        options = [ { name: parent.name, type: parent.type, options } as APIApplicationCommandInteractionDataOption ];
+
+    return { options, resolved };
+};
+
+/**
+ * Build the registered guild for a command's data, as Discord includes for guild-scoped commands
+ */
+const commandGuild = (command: Command<any, any, any, any>, base: ReturnType<typeof baseInteraction>) =>
+    command.guilds && 'guild_id' in base ? { guild_id: base.guild_id } : {};
+
+/**
+ * Builders for realistic interaction payloads
+ */
+export const interactions = {
+    /**
+     * Build a chat input command interaction, using the command's declared options to type the values
+     */
+    command: (command: Command<any, any, any, any>, opts: CommandInteractionOptions = {}) => {
+        const { options, resolved } = buildOptions(getCommandOptions(command), opts);
+        const base = baseInteraction(opts);
+        return {
+            ...base,
+            type: InteractionType.ApplicationCommand,
+            data: {
+                id: snowflake(),
+                name: command.name,
+                type: ApplicationCommandType.ChatInput,
+                ...commandGuild(command, base),
+                options,
+                resolved,
+            },
+        } as APIChatInputApplicationCommandInteraction;
+    },
+
+    /**
+     * Build an autocomplete interaction, with the given option focused
+     */
+    autocomplete: (command: Command<any, any, any, any>, focused: string, opts: CommandInteractionOptions = {}) => {
+        const { options } = buildOptions(getCommandOptions(command), { ...opts, options: { [focused]: '', ...opts.options } }, focused);
+        const base = baseInteraction(opts);
+        return {
+            ...base,
+            type: InteractionType.ApplicationCommandAutocomplete,
+            data: {
+                id: snowflake(),
+                name: command.name,
+                type: ApplicationCommandType.ChatInput,
+                ...commandGuild(command, base),
+                options,
+            },
+        } as APIApplicationCommandAutocompleteInteraction;
+    },
+
+    /**
+     * Build a user context menu command interaction, targeting the given user
+     */
+    userCommand: (command: Command<any, any, any, any>, target: APIUser, opts: InteractionBase = {}) => {
+        const base = baseInteraction(opts);
+        return {
+            ...base,
+            type: InteractionType.ApplicationCommand,
+            data: {
+                id: snowflake(),
+                name: command.name,
+                type: ApplicationCommandType.User,
+                ...commandGuild(command, base),
+                target_id: target.id,
+                resolved: { users: { [target.id]: target } },
+            },
+        } as APIUserApplicationCommandInteraction;
+    },
+
+    /**
+     * Build a message context menu command interaction, targeting the given message
+     */
+    messageCommand: (command: Command<any, any, any, any>, target: Partial<APIMessage>, opts: InteractionBase = {}) => {
+        const base = baseInteraction(opts);
+        const message = baseMessage(base.application_id, base.channel_id, target);
+        return {
+            ...base,
+            type: InteractionType.ApplicationCommand,
+            data: {
+                id: snowflake(),
+                name: command.name,
+                type: ApplicationCommandType.Message,
+                ...commandGuild(command, base),
+                target_id: message.id,
+                resolved: { messages: { [message.id]: message } },
+            },
+        } as APIMessageApplicationCommandInteraction;
+    },
+
+    /**
+     * Build a button interaction, for a component with any parameters in its name pattern
+     */
+    button: (component: ComponentMeta | string, params: ComponentParams = {}, opts: InteractionBase & { message?: Partial<APIMessage> } = {}) => {
+        const base = baseInteraction(opts);
+        return {
+            ...base,
+            type: InteractionType.MessageComponent,
+            message: baseMessage(base.application_id, base.channel_id, opts.message),
+            data: {
+                custom_id: typeof component === 'string' ? component : createCustomId(component, params),
+                component_type: ComponentType.Button,
+            },
+        } as APIMessageComponentInteraction;
+    },
+
+    /**
+     * Build a string select interaction, with the given values selected
+     */
+    select: (component: ComponentMeta | string, values: string[], params: ComponentParams = {}, opts: InteractionBase & { message?: Partial<APIMessage> } = {}) => {
+        const base = baseInteraction(opts);
+        return {
+            ...base,
+            type: InteractionType.MessageComponent,
+            message: baseMessage(base.application_id, base.channel_id, opts.message),
+            data: {
+                custom_id: typeof component === 'string' ? component : createCustomId(component, params),
+                component_type: ComponentType.StringSelect,
+                values,
+            },
+        } as APIMessageComponentInteraction;
+    },
+
+    /**
+     * Build a modal submit interaction, with the given text input values
+     */
+    modal: (modal: ModalMeta | string, values: { [name: string]: string }, opts: InteractionBase = {}) => ({
+        ...baseInteraction(opts),
+        type: InteractionType.ModalSubmit,
+        data: {
+            custom_id: typeof modal === 'string' ? modal : modal.name,
+            components: Object.entries(values).map(([ customId, value ]) => ({
+                type: ComponentType.ActionRow,
+                components: [ { type: ComponentType.TextInput, custom_id: customId, value } ],
+            })),
+        },
+    }) as APIModalSubmitInteraction,
+};
+
+/**
+ * Builders for webhook event payloads, sent to `POST /events`
+ */
+export const events = {
+    ping: (applicationId = '400000000000000001'): EventBody => ({
+        version: 1,
+        application_id: applicationId,
+        type: 0,
+    }),
+    event: <Type extends EventType>(type: Type, data: EventData[Type], applicationId = '400000000000000001'): EventBody => ({
+        version: 1,
+        application_id: applicationId,
+        type: 1,
+        event: {
+            type,
+            timestamp: new Date().toISOString(),
+            data,
+        },
+    }),
+};
+
+export interface RecordedCall {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: Headers;
+    body: any;
+}
+
+export type MockRoute = (call: RecordedCall, params: string[]) => Response | Promise<Response> | any;
+
+/**
+ * Read the body of a request for recording, parsing JSON, form and multipart bodies
+ */
+const readBody = async (request: Request) => {
+    const type = request.headers.get('Content-Type') || '';
+    if (!request.body) return undefined;
+    if (type.includes('application/json')) return request.json();
+    if (type.includes('application/x-www-form-urlencoded')) return Object.fromEntries(new URLSearchParams(await request.text()));
+    if (type.includes('multipart/form-data')) {
+        const form = await request.formData();
+        const payload = form.get('payload_json');
+        return typeof payload === 'string' ? { ...JSON.parse(payload), files: form } : form;
+    }
+    return request.text();
+};
+
+/**
+ * Create an in-memory stand-in for the Discord API, recording every request made to it
+ *
+ * Supports OAuth2 token exchanges, application commands (global and guild) and their guild permissions, and interaction webhook messages,
+ * with any other routes able to be added with `on`
+ */
+export const createMockDiscord = () => {
+    const calls: RecordedCall[] = [];
+    const commands = new Map<string, APIApplicationCommand[]>();
+    const messages = new Map<string, APIMessage>();
+    const permissions = new Map<string, APIGuildApplicationCommandPermissions>();
+    const responses = new Map<string, Promise<void>>();
+    const routes: { method: string; pattern: RegExp; handler: MockRoute }[] = [];
+    let originalFetch: typeof fetch | undefined;
+
+    const json = (data: any, status = 200) => new Response(data === undefined ? null : JSON.stringify(data), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+    const notFound = () => json({ message: '404: Not Found', code: 0 }, 404);
+
+    // Get the commands for a scope, global or a guild
+    const scope = (appId: string, guildId?: string) => {
+        const key = `${appId}:${guildId ?? 'global'}`;
+        if (!commands.has(key)) commands.set(key, []);
+        return commands.get(key)!;
+    };
+
+    // Create the full command object from a command payload
+    const toCommand = (appId: string, guildId: string | undefined, data: any, existing?: APIApplicationCommand): APIApplicationCommand => ({
+        id: existing?.id ?? snowflake(),
+        application_id: appId,
+        version: snowflake(),
+        default_member_permissions: null,
+        type: ApplicationCommandType.ChatInput,
+        description: '',
+        ...(guildId && { guild_id: guildId }),
+        ...existing,
+        ...data,
+    });
+
+    // Built-in routes for the endpoints used by the library
+    const builtin: { method: string; pattern: RegExp; handler: MockRoute }[] = [
+        {
+            method: 'POST',
+            pattern: /^\/oauth2\/token$/,
+            handler: call => ({ access_token: 'mock-access-token', token_type: 'Bearer', expires_in: 604800, scope: call.body?.scope ?? '' }),
+        },
+        {
+            method: 'GET',
+            pattern: /^\/applications\/(\d+)(?:\/guilds\/(\d+))?\/commands$/,
+            handler: (_, [ appId, guildId ]) => scope(appId, guildId),
+        },
+        {
+            method: 'POST',
+            pattern: /^\/applications\/(\d+)(?:\/guilds\/(\d+))?\/commands$/,
+            handler: (call, [ appId, guildId ]) => {
+                const cmds = scope(appId, guildId);
+                const existing = cmds.findIndex(cmd => cmd.name === call.body.name && cmd.type === (call.body.type ?? ApplicationCommandType.ChatInput));
+                const command = toCommand(appId, guildId, call.body, cmds[existing]);
+                if (existing >= 0) cmds[existing] = command;
+                else cmds.push(command);
+                return json(command, existing >= 0 ? 200 : 201);
+            },
+        },
+        {
+            method: 'PUT',
+            pattern: /^\/applications\/(\d+)(?:\/guilds\/(\d+))?\/commands$/,
+            handler: (call, [ appId, guildId ]) => {
+                const cmds = scope(appId, guildId);
+                const updated = (call.body as any[]).map(data => toCommand(appId, guildId, data, cmds.find(cmd => cmd.name === data.name && cmd.type === (data.type ?? ApplicationCommandType.ChatInput))));
+                commands.set(`${appId}:${guildId ?? 'global'}`, updated);
+                return updated;
+            },
+        },
+        {
+            method: 'GET',
+            pattern: /^\/applications\/(\d+)(?:\/guilds\/(\d+))?\/commands\/(\d+)$/,
+            handler: (_, [ appId, guildId, id ]) => scope(appId, guildId).find(cmd => cmd.id === id) ?? notFound(),
+        },
+        {
+            method: 'PATCH',
+            pattern: /^\/applications\/(\d+)(?:\/guilds\/(\d+))?\/commands\/(\d+)$/,
+            handler: (call, [ appId, guildId, id ]) => {
+                const cmds = scope(appId, guildId);
+                const index = cmds.findIndex(cmd => cmd.id === id);
+                if (index < 0) return notFound();
+                cmds[index] = toCommand(appId, guildId, call.body, cmds[index]);
+                return cmds[index];
+            },
+        },
+        {
+            method: 'DELETE',
+            pattern: /^\/applications\/(\d+)(?:\/guilds\/(\d+))?\/commands\/(\d+)$/,
+            handler: (_, [ appId, guildId, id ]) => {
+                const cmds = scope(appId, guildId);
+                const index = cmds.findIndex(cmd => cmd.id === id);
+                if (index < 0) return notFound();
+                cmds.splice(index, 1);
+                return new Response(null, { status: 204 });
+            },
+        },
+        {
+            method: 'GET',
+            pattern: /^\/applications\/(\d+)\/guilds\/(\d+)\/commands\/permissions$/,
+            handler: (_, [ appId, guildId ]) => [ ...permissions.values() ].filter(p => p.application_id === appId && p.guild_id === guildId),
+        },
+        {
+            method: 'PUT',
+            pattern: /^\/applications\/(\d+)\/guilds\/(\d+)\/commands\/(\d+)\/permissions$/,
+            handler: (call, [ appId, guildId, id ]) => {
+                const command = { id, application_id: appId, guild_id: guildId, permissions: call.body.permissions };
+                permissions.set(`${guildId}:${id}`, command);
+                return command;
+            },
+        },
+        {
+            method: 'POST',
+            pattern: /^\/webhooks\/(\d+)\/([^/]+)$/,
+            handler: (call, [ appId ]) => {
+                const message = baseMessage(appId, '300000000000000001', { ...call.body, files: undefined } as Partial<APIMessage>);
+                messages.set(message.id, message);
+                return message;
+            },
+        },
+        {
+            method: 'GET',
+            pattern: /^\/webhooks\/(\d+)\/([^/]+)\/messages\/([^/]+)$/,
+            handler: async (_, [ , token, id ]) => {
+                if (id === '@original') await responses.get(token);
+                return messages.get(id === '@original' ? `@original:${token}` : id) ?? notFound();
+            },
+        },
+        {
+            method: 'PATCH',
+            pattern: /^\/webhooks\/(\d+)\/([^/]+)\/messages\/([^/]+)$/,
+            handler: async (call, [ appId, token, id ]) => {
+                if (id === '@original') await responses.get(token);
+                const key = id === '@original' ? `@original:${token}` : id;
+                const existing = messages.get(key);
+
+                // Editing a deferred response replaces its loading state
+                const message = {
+                    ...baseMessage(appId, '300000000000000001'),
+                    ...existing,
+                    flags: (existing?.flags ?? 0) & ~MessageFlags.Loading,
+                    ...call.body,
+                    files: undefined,
+                    edited_timestamp: new Date().toISOString(),
+                };
+                messages.set(key, message);
+                return message;
+            },
+        },
+        {
+            method: 'DELETE',
+            pattern: /^\/webhooks\/(\d+)\/([^/]+)\/messages\/([^/]+)$/,
+            handler: async (_, [ , token, id ]) => {
+                if (id === '@original') await responses.get(token);
+                messages.delete(id === '@original' ? `@original:${token}` : id);
+                return new Response(null, { status: 204 });
+            },
+        },
+    ];
+
+    /**
+     * Handle a request to the Discord API
+     */
+    const handle = async (request: Request) => {
+        const url = new URL(request.url);
+        const call: RecordedCall = {
+            method: request.method,
+            path: url.pathname.slice(new URL(RouteBases.api).pathname.length),
+            query: url.searchParams,
+            headers: request.headers,
+            body: await readBody(request),
+        };
+        calls.push(call);
+
+        // Custom routes take priority over the built-in routes
+        for (const route of [ ...routes, ...builtin ]) {
+            const match = route.method === call.method && route.pattern.exec(call.path);
+            if (!match) continue;
+
+            const result = await route.handler(call, match.slice(1));
+            return result instanceof Response ? result : json(result);
+        }
+
+        return notFound();
+    };
+
+    /**
+     * Intercept requests to the Discord API, passing any other requests through
+     */
+    const mockFetch = (input: RequestInfo | URL, init?: RequestInit) => {
+        const request = new Request(input as any, init as any);
+        if (request.url.startsWith(RouteBases.api))
+            return handle(request);
+        return originalFetch!(input as any, init as any);
+    };
+
+    /**
+     * Store the message created by the initial response to an interaction as its `@original` message
+     */
+    const storeOriginal = (interaction: APIInteraction, body: { type?: InteractionResponseType; data?: any } | undefined) => {
+        const key = `@original:${interaction.token}`;
+        const channelId = interaction.channel?.id ?? '300000000000000001';
+        const data = { ...body?.data, files: undefined };
+
+        switch (body?.type) {
+            case InteractionResponseType.ChannelMessageWithSource:
+                messages.set(key, baseMessage(interaction.application_id, channelId, data));
+                return;
+
+            case InteractionResponseType.DeferredChannelMessageWithSource:
+                messages.set(key, baseMessage(interaction.application_id, channelId, { flags: (data.flags ?? 0) | MessageFlags.Loading }));
+                return;
+
+            // Components (and modals submitted from them) respond by updating the message they are attached to
+            case InteractionResponseType.UpdateMessage:
+            case InteractionResponseType.DeferredMessageUpdate:
+                if ('message' in interaction && interaction.message)
+                    messages.set(key, { ...interaction.message, ...(body.type === InteractionResponseType.UpdateMessage && data) });
+        }
+    };
+
+    return {
+        calls,
+        commands,
+        permissions,
+        messages,
+        /**
+         * Record the initial response to an interaction as its `@original` message, once it resolves
+         *
+         * Requests for the `@original` message wait for the response, as Discord has no original message until then
+         */
+        respond: (interaction: APIInteraction, response: Promise<{ type?: InteractionResponseType; data?: any } | undefined>) => {
+            responses.set(interaction.token, response.then(body => storeOriginal(interaction, body), () => {}));
+        },
+        /**
+         * Add a custom route, taking priority over the built-in routes
+         *
+         * String patterns can use `:param` placeholders, e.g. `/channels/:id/messages`
+         */
+        on: (method: string, pattern: RegExp | string, handler: MockRoute) => {
+            routes.unshift({
+                method,
+                pattern: typeof pattern === 'string'
+                    ? new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/:[a-zA-Z_]+/g, '([^/]+)')}$`)
+                    : pattern,
+                handler,
+            });
+        },
+        /**
+         * Get the recorded calls matching a method and path
+         */
+        find: (method: string, path: RegExp | string) => calls.filter(call => call.method === method && (typeof path === 'string' ? call.path === path : path.test(call.path))),
+        /**
+         * Clear the recorded calls and stored state
+         */
+        reset: () => {
+            calls.length = 0;
+            responses.clear();
+            commands.clear();
+            permissions.clear();
+            messages.clear();
+        },
+        /**
+         * Start intercepting `fetch` requests to the Discord API
+         */
+        install: () => {
+            if (originalFetch) return;
+            originalFetch = globalThis.fetch;
+            globalThis.fetch = mockFetch as typeof fetch;
+        },
+        /**
+         * Stop intercepting `fetch` requests, restoring the original `fetch`
+         */
+        restore: () => {
+            if (!originalFetch) return;
+            globalThis.fetch = originalFetch;
+            originalFetch = undefined;
+        },
+    };
+};
+
+export type MockDiscord = ReturnType<typeof createMockDiscord>;
+
+/**
+ * Read the JSON payload of an interaction response, including responses with files
+ */
+const readResponse = async (response: Response | undefined) => {
+    if (!response) return undefined;
+    if (response.headers.get('Content-Type')?.includes('multipart/form-data')) {
+        const payload = (await response.clone().formData()).get('payload_json');
+        return typeof payload === 'string' ? JSON.parse(payload) : undefined;
+    }
+    return response.clone().json().catch(() => undefined);
+};
+
+export interface TestResult {
+    response: Response | undefined;
+    body: any;
+}
+
+/**
+ * Create a test client, with a key pair to sign interactions and a mock Discord API installed
+ *
+ * Pass `client.publicKey` and `{ algorithm: client.algorithm }` to `createHandler`, then use `client.invoke` to run interactions through it
+ */
+export const createTestClient = async (algorithm?: string) => {
+    const keyPair = await createKeyPair(algorithm);
+    const discord = createMockDiscord();
+    discord.install();
+
+    /**
+     * Create a signed request for an interaction
+     */
+    const request = async (interaction: APIInteraction | object, url = 'https://example.com/interactions') => {
+        const body = JSON.stringify(interaction);
+        const { signature, timestamp } = await keyPair.sign(body);
+        return new Request(url, {
+            method: 'POST',
+            body,
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Signature-Ed25519': signature,
+                'X-Signature-Timestamp': timestamp,
+            },
+        });
+    };
+
+    /**
+     * Sign and send an interaction (or webhook event, with a `url` for the events route) to a handler, waiting for any work passed to `wait` to complete
+     */
+    const invoke = async <Ctx extends Context = Context>(handler: (request: Request, context: Ctx) => Promise<Response | undefined> | Response | undefined, interaction: APIInteraction | object, context: Omit<Ctx, 'waitUntil'> = {} as Omit<Ctx, 'waitUntil'>, url?: string): Promise<TestResult> => {
+        const pending: Promise<any>[] = [];
+        const ctx = {
+            passThroughOnException: () => {},
+            ...context,
+            waitUntil: (promise: Promise<any>) => { pending.push(promise); },
+        } as unknown as Ctx;
+
+        // Record the response as the interaction's original message, for any requests for it from background work
+        const signed = await request(interaction, url);
+        const result = Promise.resolve(handler(signed, ctx));
+        if ('token' in interaction && typeof interaction.token === 'string')
+            discord.respond(interaction as APIInteraction, result.then(readResponse));
+
+        const response = await result;
+        const text = response && await response.clone().text();
+
+        // Wait for all background work, including any queued while waiting
+        for (let i = 0; i < pending.length; i++)
+            await pending[i];
+
+        let body: any = text || undefined;
+        try {
+            body = text ? JSON.parse(text) : undefined;
+        } catch {}
+
+        return { response, body };
+    };
+
+    return {
+        publicKey: keyPair.publicKey,
+        algorithm: keyPair.algorithm,
+        sign: keyPair.sign,
+        discord,
+        interactions,
+        events,
+        request,
+        invoke,
+        /**
+         * Restore the original `fetch`
+         */
+        close: discord.restore,
+    };
+};
@@ -0,0 +1,102 @@
+import { verify, PlatformAlgorithm } from 'discord-verify';
+import type { Toucan } from 'toucan-js';
+
+import type { SessionStore } from './state';
+
+export interface VerifyOptions {
+    /**
+     * Algorithm used to verify request signatures, defaults to the Cloudflare Workers algorithm
+     */
+    algorithm?: Parameters<typeof verify>[5];
+    /**
+     * Maximum difference between a request's signature timestamp and the current time, in seconds, defaults to 5 minutes
+     */
+    timestampTolerance?: number;
+    /**
+     * Maximum size of a request body, in bytes, defaults to 1 MiB
+     */
+    maxBodySize?: number;
+}
+
+/**
+ * Reject a request with an empty response, reporting the reason to Sentry
+ */
+export const rejectRequest = (status: number, reason: string, sentry?: Toucan) => {
+    if (sentry) {
+        sentry.getScope().setTag('rejected', reason);
+        sentry.captureMessage(`Rejected request: ${reason}`, 'warning');
+    }
+    return new Response(null, { status });
+};
+
+/**
+ * Read the body of a request as text, stopping and returning `undefined` if it exceeds the maximum size
+ */
+const readBody = async (request: Request, maxBytes: number) => {
+    if (Number(request.headers.get('Content-Length')) > maxBytes) return undefined;
+    if (!request.body) return '';
+
+    // Read the body in chunks, so an oversized body without a length isn't buffered in full
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        size += value.byteLength;
+        if (size > maxBytes) {
+            await reader.cancel();
+            return undefined;
+        }
+        chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(size);
+    chunks.reduce((offset, chunk) => {
+        bytes.set(chunk, offset);
+        return offset + chunk.byteLength;
+    }, 0);
+    return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Verify a request was signed by Discord recently, and parse its JSON payload
+ *
+ * Returns the response to reject the request with if it is too large (413), has a stale or invalid signature (401), or can't be parsed (400)
+ */
+export const verifyRequest = async (request: Request, publicKey: string, options: VerifyOptions = {}, sentry?: Toucan): Promise<{ body: any } | Response> => {
+    const { algorithm = PlatformAlgorithm.Cloudflare, timestampTolerance = 5 * 60, maxBodySize = 1024 * 1024 } = options;
+
+    const text = await readBody(request, maxBodySize);
+    if (text === undefined)
+        return rejectRequest(413, 'body too large', sentry);
+
+    // Check the timestamp ourselves, as discord-verify's own expiry check is far too lenient
+    const timestamp = request.headers.get('X-Signature-Timestamp');
+    if (!timestamp || !(Math.abs(Date.now() / 1000 - Number(timestamp)) <= timestampTolerance))
+        return rejectRequest(401, 'stale timestamp', sentry);
+
+    if (!await verify(text, request.headers.get('X-Signature-Ed25519'), timestamp, publicKey, crypto.subtle, algorithm, Infinity))
+        return rejectRequest(401, 'invalid signature', sentry);
+
+    try {
+        const body = JSON.parse(text);
+        if (typeof body !== 'object' || body === null)
+            return rejectRequest(400, 'invalid payload', sentry);
+        return { body };
+    } catch {
+        return rejectRequest(400, 'invalid payload', sentry);
+    }
+};
+
+/**
+ * Check if an interaction ID has already been seen, remembering it for 15 minutes (the lifetime of its token)
+ *
+ * Stores that aren't strongly consistent may let simultaneous retries through
+ */
+export const isDuplicateInteraction = async (store: SessionStore, id: string) => {
+    if (await store.get(`interaction:${id}`)) return true;
+    await store.set(`interaction:${id}`, true, 15 * 60);
+    return false;
+};
@@ -2,7 +2,7 @@ import { defineConfig } from 'tsup';
 
 export default defineConfig({
     entry: ['src/*.ts'],
-    dts: { entry: ['src/index.ts'] },
+    dts: { entry: ['src/index.ts', 'src/testing.ts'] },
     format: ['esm'],
     splitting: true,
     sourcemap: true,